@@ -7,6 +7,7 @@ declare module '@sentry/react-native' {
   }
   export function addBreadcrumb(breadcrumb: Breadcrumb): void;
   export function captureMessage(message: string, options?: { level?: string; extra?: any }): void;
+  export function captureException(exception: any, options?: { level?: string; extra?: any }): void;
   export function flush(timeout?: number): Promise<boolean>;
   const Sentry: any;
   export default Sentry;
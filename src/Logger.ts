@@ -1,23 +1,26 @@
-import { LogLevel, LogRecord, LoggerConfig, Transport } from './types';
-import { AsyncBatchQueue } from './utils/queue';
-import { shouldSample } from './utils/sampler';
-import { makeRateLimiter } from './utils/rateLimiter';
-
-// ordered from most verbose to most severe
-const LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+import { ChildLoggerOptions, LogLevel, LogRecord, LoggerConfig } from './types';
+import { Pipeline } from './Pipeline';
+import { isError, serializeError } from './utils/errorSerializer';
+import { exportLogs, ExportLogsOptions, ExportResult } from './files/exportLogs';
+import { queryLogs, QueryLogsOptions, LogQuery } from './files/queryLogs';
+import { FileTransportInstance } from './transports/FileTransport';
+import { captureGlobalErrors } from './globalErrors';
+import { installConsolePatch } from './consolePatch';
+import { LoggerStats } from './utils/stats';
 
 /**
  * Enterprise-grade logger for React Native and Expo applications.
  *
  * The Logger class provides structured logging with features like:
  * - Multiple log levels (trace, debug, info, warn, error, fatal)
- * - Namespaced child loggers for organized logging
+ * - Namespaced child loggers that share one pipeline with their root
  * - Automatic batching and asynchronous flushing
  * - Built-in redaction for sensitive data
  * - Rate limiting and sampling
  * - Pluggable transport system
  * - Correlation ID tracking
  * - Console patching for third-party library compatibility
+ * - Optional capture of uncaught errors and unhandled promise rejections
  *
  * @example
  * ```typescript
@@ -46,14 +49,15 @@ const LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
  * ```
  */
 export class Logger {
-  private cfg: LoggerConfig;
-  private rateLimiter?: () => boolean;
-  private queue: AsyncBatchQueue<LogRecord>;
+  private pipeline: Pipeline;
+  private namespace?: string;
+  private bindings?: Record<string, unknown>;
 
   /**
    * Creates a new logger instance with the given configuration.
    *
    * @param cfg - The logger configuration object
+   * @param pipeline - Pipeline of the parent logger; only passed by `child()`
    *
    * @example
    * ```typescript
@@ -64,57 +68,120 @@ export class Logger {
    * });
    * ```
    */
-  constructor(cfg: LoggerConfig) {
-    this.cfg = { ...cfg };
-    if (cfg.rateLimit) {
-      this.rateLimiter = makeRateLimiter(cfg.rateLimit.maxPerMin);
+  constructor(cfg: LoggerConfig, pipeline?: Pipeline) {
+    this.namespace = cfg.namespace;
+    this.bindings = cfg.bindings;
+    this.pipeline = pipeline ?? new Pipeline(cfg);
+    if (!pipeline && cfg.patchConsole) {
+      this.pipeline.onDispose(this.patchConsole());
     }
-    const batchSize = cfg.batch?.size ?? 20;
-    const interval = cfg.batch?.intervalMs ?? 1500;
-    this.queue = new AsyncBatchQueue<LogRecord>(batchSize, interval, async items => {
-      // send the same batch to all transports
-      await Promise.all(cfg.transports.map(t => {
-        const result = t.write(items);
-        return result instanceof Promise ? result : Promise.resolve(result);
-      }));
-    });
-    if (cfg.patchConsole) {
-      this.patchConsole();
+    if (!pipeline && cfg.captureGlobalErrors) {
+      const opts = cfg.captureGlobalErrors === true ? {} : cfg.captureGlobalErrors;
+      this.pipeline.onDispose(captureGlobalErrors(this, opts));
     }
   }
 
   /**
-   * Creates a child logger with an appended namespace.
+   * Creates a child logger with an appended namespace and/or persistent bindings.
    *
-   * Child loggers inherit all configuration from their parent but have
-   * a more specific namespace for better log organization.
+   * Child loggers share the queue, rate limiter, transports and live
+   * configuration of their root, so they are cheap to create, and flushing or
+   * disposing any logger in the tree affects all of them. Children have a more
+   * specific namespace for better log organization. Bindings are merged
+   * into the `ctx` of every record the child writes and stack across nested
+   * children. When keys collide, the precedence is (lowest to highest):
+   * parent bindings, child bindings, per-call context. Bindings pass through
+   * the configured redactor like any other context.
    *
-   * @param namespace - The namespace to append (e.g., 'auth', 'api', 'ui')
-   * @returns A new Logger instance with the combined namespace
+   * @param namespaceOrOptions - The namespace to append (e.g., 'auth', 'api', 'ui'),
+   *   or an options object with an optional `ns` and `bindings`
+   * @returns A new Logger instance with the combined namespace and bindings
    *
    * @example
    * ```typescript
    * const rootLogger = getLogger('app');
    * const authLogger = rootLogger.child('auth');
-   * const loginLogger = authLogger.child('login');
+   * const loginLogger = authLogger.child({ ns: 'login', bindings: { screen: 'Login' } });
    *
    * // Logs will have namespaces: 'app', 'app:auth', 'app:auth:login'
    * rootLogger.info('App started');
    * authLogger.info('Auth module initialized');
    * loginLogger.info('Login attempt', { username: 'user@example.com' });
+   * // ctx: { screen: 'Login', username: 'user@example.com' }
+   * ```
+   */
+  child(namespaceOrOptions: string | ChildLoggerOptions): Logger {
+    const opts: ChildLoggerOptions =
+      typeof namespaceOrOptions === 'string' ? { ns: namespaceOrOptions } : namespaceOrOptions;
+    let ns = this.namespace;
+    if (opts.ns) {
+      ns = ns ? `${ns}:${opts.ns}` : opts.ns;
+    }
+    const bindings = opts.bindings
+      ? { ...this.bindings, ...opts.bindings }
+      : this.bindings;
+    return new Logger({ ...this.pipeline.cfg, namespace: ns, bindings }, this.pipeline);
+  }
+
+  /**
+   * Creates a child logger with the same namespace and additional bindings.
+   *
+   * Shorthand for `child({ bindings })`.
+   *
+   * @param bindings - Fields merged into the `ctx` of every record
+   * @returns A new Logger instance carrying the combined bindings
+   *
+   * @example
+   * ```typescript
+   * const log = getLogger('checkout').withBindings({ orderId: 'ord_42' });
+   * log.info('Payment started'); // ctx: { orderId: 'ord_42' }
    * ```
    */
-  child(namespace: string): Logger {
-    const ns = this.cfg.namespace ? `${this.cfg.namespace}:${namespace}` : namespace;
-    return new Logger({ ...this.cfg, namespace: ns });
+  withBindings(bindings: Record<string, unknown>): Logger {
+    return this.child({ bindings });
   }
 
   /**
    * Sets the minimum log level at runtime.
-   * @param level - The new minimum log level
+   *
+   * Levels are shared by a root logger and all of its children, including
+   * children created before the change. With a single argument the level
+   * applies to this logger's namespace (or becomes the default on a root
+   * logger without a namespace). With a pattern, it applies to every namespace
+   * matching the DEBUG-style glob; the most specific matching pattern wins.
+   *
+   * @param patternOrLevel - A namespace pattern such as `api:*`, or the level
+   * @param level - The level for namespaces matching the pattern
+   *
+   * @example
+   * ```typescript
+   * const root = getLogger();
+   * root.setLevel('warn');             // default for everything
+   * root.setLevel('api:*', 'trace');   // except the api namespaces
+   * getLogger('api:http').trace('GET /users'); // logged
+   * ```
+   */
+  setLevel(level: LogLevel): void;
+  setLevel(pattern: string, level: LogLevel): void;
+  setLevel(patternOrLevel: string, level?: LogLevel): void {
+    const levels = this.pipeline.levels;
+    if (level) {
+      levels.set(patternOrLevel, level);
+    } else if (this.namespace) {
+      levels.set(this.namespace, patternOrLevel as LogLevel);
+    } else {
+      levels.setDefault(patternOrLevel as LogLevel);
+    }
+  }
+
+  /**
+   * Removes a namespace level override set through `setLevel(pattern, level)`
+   * or the `levels` config. Matching namespaces fall back to the next most
+   * specific pattern or the default level.
+   * @param pattern - The pattern to remove
    */
-  setLevel(level: LogLevel): void {
-    this.cfg.level = level;
+  clearLevel(pattern: string): void {
+    this.pipeline.levels.delete(pattern);
   }
 
   /**
@@ -122,6 +189,7 @@ export class Logger {
    *
    * Correlation IDs help track related log entries across different parts
    * of your application, making debugging distributed operations easier.
+   * The ID is shared by the root logger and all of its children.
    *
    * @param id - The correlation ID, or undefined to clear the current ID
    *
@@ -140,16 +208,17 @@ export class Logger {
    * ```
    */
   setCorrelationId(id?: string): void {
-    this.cfg.correlationId = id;
+    this.pipeline.cfg.correlationId = id;
   }
 
   /**
-   * Determines whether a log level passes the configured threshold.
+   * Determines whether a record at this level should be built: it passes the
+   * configured threshold or is captured by the flush-on-error buffer.
    * @param level - The log level to check
-   * @returns True if the level should be logged
+   * @returns True if the record should be built and processed
    */
-  private allowed(level: LogLevel): boolean {
-    return LEVELS.indexOf(level) >= LEVELS.indexOf(this.cfg.level);
+  private wants(level: LogLevel): boolean {
+    return this.pipeline.wants(level, this.namespace);
   }
 
   /**
@@ -160,36 +229,52 @@ export class Logger {
    * @returns The constructed LogRecord
    */
   private buildRecord(level: LogLevel, msg: string, ctx?: Record<string, unknown>): LogRecord {
+    const bindings = this.bindings;
+    const cfg = this.pipeline.cfg;
     return {
       ts: Date.now(),
       level,
       msg,
-      ns: this.cfg.namespace,
-      ctx,
-      correlationId: this.cfg.correlationId,
-      device: this.cfg.device
+      ns: this.namespace,
+      ctx: bindings ? { ...bindings, ...ctx } : ctx,
+      correlationId: cfg.correlationId,
+      device: cfg.device
     };
   }
 
   /**
-   * Processes a record: redacts sensitive data, applies sampling/rate limiting and queues it.
-   * @param record - The log record to process
+   * Constructs an error/fatal record, lifting an `Error` passed as the message or
+   * under `ctx.err`/`ctx.error` into the serialized `err` field.
+   * @param level - The severity level
+   * @param msg - The log message or an Error
+   * @param ctx - Optional context data
+   * @returns The constructed LogRecord
    */
-  private process(record: LogRecord): void {
-    // apply redaction
-    if (this.cfg.redactor) {
-      record = this.cfg.redactor(record);
+  private buildErrorRecord(level: LogLevel, msg: string | Error, ctx?: Record<string, unknown>): LogRecord {
+    let err: Error | undefined;
+    if (isError(msg)) {
+      err = msg;
+      msg = msg.message;
     }
-    // rate limit
-    if (this.rateLimiter && !this.rateLimiter()) {
-      return;
+    if (!err && ctx) {
+      const key = isError(ctx.err) ? 'err' : isError(ctx.error) ? 'error' : undefined;
+      if (key) {
+        const { [key]: found, ...rest } = ctx;
+        err = found as Error;
+        ctx = Object.keys(rest).length > 0 ? rest : undefined;
+      }
     }
-    // sampling
-    const rate = this.cfg.sampling?.rate ?? 1;
-    if (!shouldSample(record.level, rate)) {
-      return;
-    }
-    this.queue.push(record);
+    const record = this.buildRecord(level, msg, ctx);
+    if (err) record.err = serializeError(err);
+    return record;
+  }
+
+  /**
+   * Hands a record to the shared pipeline for redaction, sampling, rate limiting and queueing.
+   * @param record - The log record to process
+   */
+  private process(record: LogRecord): void {
+    this.pipeline.process(record);
   }
 
   /**
@@ -198,7 +283,7 @@ export class Logger {
    * @param ctx - Optional context data
    */
   trace(msg: string, ctx?: Record<string, unknown>): void {
-    if (this.allowed('trace')) this.process(this.buildRecord('trace', msg, ctx));
+    if (this.wants('trace')) this.process(this.buildRecord('trace', msg, ctx));
   }
 
   /**
@@ -207,7 +292,7 @@ export class Logger {
    * @param ctx - Optional context data
    */
   debug(msg: string, ctx?: Record<string, unknown>): void {
-    if (this.allowed('debug')) this.process(this.buildRecord('debug', msg, ctx));
+    if (this.wants('debug')) this.process(this.buildRecord('debug', msg, ctx));
   }
 
   /**
@@ -237,7 +322,7 @@ export class Logger {
    * ```
    */
   info(msg: string, ctx?: Record<string, unknown>): void {
-    if (this.allowed('info')) this.process(this.buildRecord('info', msg, ctx));
+    if (this.wants('info')) this.process(this.buildRecord('info', msg, ctx));
   }
 
   /**
@@ -246,7 +331,7 @@ export class Logger {
    * @param ctx - Optional context data
    */
   warn(msg: string, ctx?: Record<string, unknown>): void {
-    if (this.allowed('warn')) this.process(this.buildRecord('warn', msg, ctx));
+    if (this.wants('warn')) this.process(this.buildRecord('warn', msg, ctx));
   }
 
   /**
@@ -255,7 +340,10 @@ export class Logger {
    * Error messages indicate problems that should be investigated.
    * These are always logged regardless of sampling settings.
    *
-   * @param msg - The log message describing the error
+   * When an `Error` is passed as the first argument, or under the `err` or
+   * `error` key of the context, it is serialized into the record's `err` field.
+   *
+   * @param msg - The log message describing the error, or the error itself
    * @param ctx - Optional context data including error details
    *
    * @example
@@ -267,33 +355,32 @@ export class Logger {
    *   logger.info('Payment processed successfully');
    * } catch (error) {
    *   logger.error('Payment processing failed', {
-   *     error: error.message,
+   *     err: error,
    *     userId: paymentData.userId,
-   *     amount: paymentData.amount,
-   *     stack: error.stack
+   *     amount: paymentData.amount
    *   });
    * }
    * ```
    */
-  error(msg: string, ctx?: Record<string, unknown>): void {
-    if (this.allowed('error')) this.process(this.buildRecord('error', msg, ctx));
+  error(msg: string | Error, ctx?: Record<string, unknown>): void {
+    if (this.wants('error')) this.process(this.buildErrorRecord('error', msg, ctx));
   }
 
   /**
-   * Logs a fatal message.
-   * @param msg - The log message
+   * Logs a fatal message. Errors are serialized into `err` as with `error()`.
+   * @param msg - The log message, or the error itself
    * @param ctx - Optional context data
    */
-  fatal(msg: string, ctx?: Record<string, unknown>): void {
-    if (this.allowed('fatal')) this.process(this.buildRecord('fatal', msg, ctx));
+  fatal(msg: string | Error, ctx?: Record<string, unknown>): void {
+    if (this.wants('fatal')) this.process(this.buildErrorRecord('fatal', msg, ctx));
   }
 
   /**
    * Flushes queued records and underlying transports.
    *
-   * This method ensures all pending log records are written to their
-   * destinations before continuing. Useful before app shutdown or
-   * when you need to ensure logs are persisted.
+   * This method ensures all pending log records, including those written by
+   * child loggers, are written to their destinations before continuing.
+   * Useful before app shutdown or when you need to ensure logs are persisted.
    *
    * @returns A promise that resolves when all flushing is complete
    *
@@ -312,12 +399,96 @@ export class Logger {
    * ```
    */
   async flush(): Promise<void> {
-    await this.queue.flush();
-    await Promise.all(this.cfg.transports.map(t => t.flush ? t.flush() : Promise.resolve()));
+    await this.pipeline.flush();
+  }
+
+  /**
+   * Number of records dropped so far because the queue reached
+   * `batch.maxQueueSize`, e.g. while a transport hung. Shared by all loggers
+   * of a tree.
+   */
+  get droppedRecords(): number {
+    return this.pipeline.dropped;
+  }
+
+  /**
+   * Returns counters of what happened to the records of this logger tree: per
+   * level and namespace how many were accepted, filtered by the level check,
+   * sampled out or rate-limited, and per transport how many were written,
+   * failed, timed out, dropped by a full queue or skipped by the circuit
+   * breaker, with the write latency.
+   *
+   * @returns A snapshot of the counters since the logger was created
+   *
+   * @example
+   * ```typescript
+   * const { totals, transports } = getLogger().getStats();
+   * console.log(totals.rateLimited, transports.http?.failed);
+   * ```
+   */
+  getStats(): LoggerStats {
+    return this.pipeline.stats();
+  }
+
+  /**
+   * Exports the records written by the first FileTransport of this logger as an
+   * NDJSON bundle with a manifest; see `exportLogs`. Queued records are flushed
+   * first, and the configured `redactor` and `device` are used unless given in
+   * `opts`.
+   *
+   * @param opts - Filters, size limit and output options
+   * @returns Paths of the bundle and manifest, and the manifest itself
+   * @throws If no FileTransport is configured
+   *
+   * @example
+   * ```typescript
+   * const { path } = await getLogger().exportLogs({ levels: ['warn', 'error', 'fatal'], gzip: true });
+   * ```
+   */
+  async exportLogs(opts: ExportLogsOptions = {}): Promise<ExportResult> {
+    const cfg = this.pipeline.cfg;
+    const transport = this.fileTransport('exportLogs');
+    await this.flush();
+    return exportLogs(transport, { redactor: cfg.redactor, device: cfg.device, ...opts });
+  }
+
+  /**
+   * Searches the records written by the first FileTransport of this logger; see
+   * `queryLogs`. Records still queued are not included; call `flush()` first to
+   * see them.
+   *
+   * @param opts - Filters and paging
+   * @returns An async iterator over the matching records, with a `cursor` for the next page
+   * @throws If no FileTransport is configured
+   *
+   * @example
+   * ```typescript
+   * for await (const record of getLogger().queryLogs({ level: 'error', order: 'desc', limit: 200 })) {
+   *   console.log(record.msg);
+   * }
+   * ```
+   */
+  queryLogs(opts: QueryLogsOptions = {}): LogQuery {
+    return queryLogs(this.fileTransport('queryLogs'), opts);
+  }
+
+  /**
+   * Finds the first configured transport that manages log files.
+   * @param caller - Name of the calling method, for the error message
+   * @returns The FileTransport
+   */
+  private fileTransport(caller: string): FileTransportInstance {
+    const transport = this.pipeline.cfg.transports.find(t => typeof (t as FileTransportInstance).listLogFiles === 'function');
+    if (!transport) {
+      throw new Error(`${caller} requires a FileTransport`);
+    }
+    return transport as FileTransportInstance;
   }
 
   /**
    * Flushes and disposes of transports. After calling this the logger should not be used.
+   * The console patched through the `patchConsole` option and global error
+   * handlers installed through `captureGlobalErrors` are restored.
    *
    * This method should be called when shutting down the application to ensure
    * all logs are written and resources are properly cleaned up.
@@ -340,35 +511,32 @@ export class Logger {
    * ```
    */
   async dispose(): Promise<void> {
-    await this.flush();
-    await Promise.all(this.cfg.transports.map(t => t.dispose ? t.dispose() : Promise.resolve()));
+    await this.pipeline.dispose();
   }
 
   /**
-   * Overrides console logging functions with logger methods. Only executed once during construction if `patchConsole` is true.
+   * Replaces `console.log/debug/info/warn/error` with logger methods, so
+   * third-party libraries follow the logger's levels, redaction and transports.
+   * Called on construction when `patchConsole` is set; `dispose()` then
+   * restores the console.
+   *
+   * Records get the `console` namespace. Strings and other primitives form
+   * the message; plain objects are kept as structured `ctx` instead of being
+   * printed as `[object Object]`, other objects go to `ctx.args` and an error
+   * to `ctx.err`. `console.log` maps to `debug`. Console output of the logger
+   * itself, such as from `ConsoleTransport`, goes to the original methods.
+   *
+   * @returns A function restoring the original console methods
+   *
+   * @example
+   * ```typescript
+   * const restore = logger.patchConsole();
+   * console.warn('Low memory', { freeMb: 42 }); // ns: 'console', ctx: { freeMb: 42 }
+   * restore();
+   * ```
    */
-  private patchConsole(): void {
-    // preserve other console methods (time, table, etc.)
-    const original = { ...console };
-    const self = this;
-    console.log = (...args: unknown[]) => {
-      self.debug(args.map(String).join(' '));
-    };
-    console.info = (...args: unknown[]) => {
-      self.info(args.map(String).join(' '));
-    };
-    console.warn = (...args: unknown[]) => {
-      self.warn(args.map(String).join(' '));
-    };
-    console.error = (...args: unknown[]) => {
-      self.error(args.map(String).join(' '));
-    };
-    console.debug = (...args: unknown[]) => {
-      self.debug(args.map(String).join(' '));
-    };
-    // keep other methods intact
-    console.table = original.table?.bind(original) ?? console.table;
-    console.time = original.time?.bind(original) ?? console.time;
-    console.timeEnd = original.timeEnd?.bind(original) ?? console.timeEnd;
+  patchConsole(): () => void {
+    const target = new Logger({ ...this.pipeline.cfg, namespace: 'console', bindings: undefined }, this.pipeline);
+    return installConsolePatch(target);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,278 @@
+import { LogLevel, LogRecord, LoggerConfig } from './types';
+import { BatchQueueOptions } from './utils/queue';
+import { shouldSample } from './utils/sampler';
+import { RateLimiter, makeTokenBucketLimiter } from './utils/rateLimiter';
+import { Deduper, makeDeduper } from './utils/dedupe';
+import { LevelRegistry, levelAtLeast } from './utils/levels';
+import { TailBuffer } from './utils/tailBuffer';
+import { TransportLane, TransportLaneOptions } from './utils/transportLane';
+import { LoggerStats, StatsCollector, TransportStats } from './utils/stats';
+import { reportInternal } from './utils/debug';
+
+/**
+ * State shared by a root logger and all of its children: the live configuration,
+ * level overrides, rate limiter, deduper, and the transports with their batch queues.
+ * Creating a child logger only creates a thin facade over the same pipeline, so
+ * children are cheap and flushing the root also flushes everything its children
+ * logged.
+ *
+ * @internal
+ */
+export class Pipeline {
+  /** Live configuration; mutations (e.g. correlation ID) are seen by every logger */
+  readonly cfg: LoggerConfig;
+  readonly levels: LevelRegistry;
+  private rateLimiter?: RateLimiter;
+  private deduper?: Deduper;
+  // writes the summaries of dedupe and rate limit windows that close while nothing is logged
+  private summaryTimer?: ReturnType<typeof setTimeout>;
+  private summaryAt = Infinity;
+  private lanes: TransportLane[];
+  private tail?: TailBuffer;
+  private counters = new StatsCollector();
+  // undo global hooks such as captured error handlers on dispose
+  private disposers: (() => void)[] = [];
+
+  /**
+   * Creates the pipeline for a root logger.
+   * @param cfg - The root logger configuration
+   */
+  constructor(cfg: LoggerConfig) {
+    this.cfg = { ...cfg };
+    this.levels = new LevelRegistry(cfg.level, cfg.levels);
+    if (cfg.rateLimit) {
+      this.rateLimiter = makeTokenBucketLimiter(cfg.rateLimit);
+    }
+    if (cfg.dedupe) {
+      this.deduper = makeDeduper(cfg.dedupe === true ? {} : cfg.dedupe);
+    }
+    if (cfg.flushOnError) {
+      const { maxRecords = 100, maxAgeMs, perCorrelationId } = cfg.flushOnError;
+      this.tail = new TailBuffer(maxRecords, maxAgeMs, perCorrelationId);
+    }
+    const batchSize = cfg.batch?.size ?? 20;
+    const interval = cfg.batch?.intervalMs ?? 1500;
+    const laneOptions: TransportLaneOptions = {
+      writeTimeoutMs: cfg.writeTimeoutMs ?? 10000,
+      circuitBreaker: cfg.circuitBreaker ?? {},
+      onError: cfg.onTransportError
+    };
+    // each transport gets its own queue, so a slow or failing one never holds up the others
+    this.lanes = cfg.transports.map(t =>
+      new TransportLane(t, batchSize, interval, this.queueOptions(), laneOptions));
+    if (cfg.stats) {
+      const { intervalMs, level = 'info' } = cfg.stats;
+      // queued directly: the level threshold, sampling, rate limit and dedupe
+      // would drop the report and count it in the very counters it reports
+      const timer = setInterval(() => this.enqueue({
+        ts: Date.now(),
+        level,
+        msg: 'Logger stats',
+        ns: 'logger',
+        ctx: { ...this.stats() },
+        device: this.cfg.device
+      }), intervalMs);
+      this.onDispose(() => clearInterval(timer));
+    }
+  }
+
+  /**
+   * Builds the bound and overflow handling of one transport queue; the
+   * overflow summary is written to the transport that lost the records.
+   */
+  private queueOptions(): BatchQueueOptions<LogRecord> {
+    const batch = this.cfg.batch;
+    const overflowLevel = batch?.overflowLevel ?? 'warn';
+    const droppedByLevel: Partial<Record<LogLevel, number>> = {};
+    return {
+      maxSize: batch?.maxQueueSize,
+      overflow: batch?.overflow,
+      isLow: rec => !levelAtLeast(rec.level, overflowLevel),
+      onDrop: rec => {
+        droppedByLevel[rec.level] = (droppedByLevel[rec.level] ?? 0) + 1;
+      },
+      onRecover: dropped => {
+        const byLevel = { ...droppedByLevel };
+        for (const level of Object.keys(droppedByLevel) as LogLevel[]) delete droppedByLevel[level];
+        return {
+          ts: Date.now(),
+          level: 'warn',
+          msg: `Log queue overflowed; ${dropped} records were dropped`,
+          ns: 'logger',
+          ctx: { dropped, byLevel, policy: batch?.overflow ?? 'drop-oldest' },
+          device: this.cfg.device
+        };
+      }
+    };
+  }
+
+  /**
+   * Returns a snapshot of the pipeline and transport counters.
+   */
+  stats(): LoggerStats {
+    const transports: Record<string, TransportStats> = {};
+    for (const lane of this.lanes) {
+      let name = lane.transport.name;
+      for (let i = 2; name in transports; i++) name = `${lane.transport.name}#${i}`;
+      transports[name] = lane.stats();
+    }
+    return this.counters.snapshot(transports);
+  }
+
+  /** Total number of records dropped because a transport queue was full */
+  get dropped(): number {
+    return this.lanes.reduce((sum, lane) => sum + lane.queue.dropped, 0);
+  }
+
+  /**
+   * Determines whether a level passes the threshold for a namespace.
+   * @param level - The log level to check
+   * @param ns - The namespace of the logger
+   * @returns True if the level should be logged
+   */
+  allowed(level: LogLevel, ns: string | undefined): boolean {
+    return levelAtLeast(level, this.levels.resolve(ns));
+  }
+
+  /**
+   * Determines whether a record at this level should be built at all: either it
+   * passes the threshold or it is captured by the flush-on-error buffer.
+   * @param level - The log level to check
+   * @param ns - The namespace of the logger
+   * @returns True if the record should be passed to `process`
+   */
+  wants(level: LogLevel, ns: string | undefined): boolean {
+    if (this.allowed(level, ns)) return true;
+    if (this.tail && levelAtLeast(level, this.cfg.flushOnError?.captureLevel ?? 'trace')) return true;
+    this.counters.count('filtered', level, ns);
+    return false;
+  }
+
+  /**
+   * Processes a record: redacts sensitive data, applies sampling/rate limiting and queues it.
+   * Duplicates collapsed by `dedupe` and rate-limited records are replaced by
+   * summary records.
+   * Records held back by the level check or sampling go to the flush-on-error
+   * buffer when it is enabled; a record at the trigger level releases the buffer.
+   * @param record - The log record to process
+   */
+  process(record: LogRecord): void {
+    // apply redaction
+    if (this.cfg.redactor) {
+      try {
+        record = this.cfg.redactor(record);
+      } catch (err) {
+        // never write what could not be redacted, and never throw into the caller
+        reportInternal('Redactor threw; record dropped', err);
+        return;
+      }
+    }
+    const { level, ns } = record;
+    if (!this.allowed(level, ns)) {
+      this.counters.count('filtered', level, ns);
+      this.tail?.add(record);
+      return;
+    }
+    // dedupe before the rate limit, so duplicates do not use up tokens; summaries()
+    // only scans once a window is due and otherwise returns windows closed by accept()
+    if (this.deduper) {
+      const unique = this.deduper.accept(record);
+      for (const summary of this.deduper.summaries()) this.enqueue(summary);
+      if (!unique) {
+        this.counters.count('deduplicated', level, ns);
+        this.scheduleSummaries();
+        return;
+      }
+    }
+    // rate limit; summaries of closed suppression windows go first
+    if (this.rateLimiter) {
+      const allowed = this.rateLimiter.allow(record);
+      for (const summary of this.rateLimiter.summaries()) this.enqueue(summary);
+      if (!allowed) {
+        this.counters.count('rateLimited', level, ns);
+        this.scheduleSummaries();
+        return;
+      }
+    }
+    // sampling
+    const rate = this.cfg.sampling?.rate ?? 1;
+    if (!shouldSample(level, rate)) {
+      this.counters.count('sampledOut', level, ns);
+      this.tail?.add(record);
+      return;
+    }
+    this.counters.count('accepted', level, ns);
+    if (this.tail && levelAtLeast(record.level, this.cfg.flushOnError?.triggerLevel ?? 'error')) {
+      for (const buffered of this.tail.drain(record.correlationId)) {
+        this.enqueue(buffered);
+      }
+    }
+    this.enqueue(record);
+  }
+
+  private enqueue(record: LogRecord): void {
+    for (const lane of this.lanes) lane.push(record);
+  }
+
+  /**
+   * Sets a timer for the next dedupe or rate limit window to close, so its
+   * summary is written even if no further records arrive.
+   */
+  private scheduleSummaries(): void {
+    const at = Math.min(this.deduper?.nextCloseAt() ?? Infinity, this.rateLimiter?.nextCloseAt() ?? Infinity);
+    // a timer firing no later is already set
+    if (at === Infinity || at >= this.summaryAt) return;
+    clearTimeout(this.summaryTimer);
+    this.summaryAt = at;
+    this.summaryTimer = setTimeout(() => {
+      this.summaryTimer = undefined;
+      this.summaryAt = Infinity;
+      this.enqueueSummaries(false);
+      this.scheduleSummaries();
+    }, Math.max(0, at - Date.now()));
+  }
+
+  /**
+   * Queues the summaries of closed dedupe and rate limit windows; with `all`,
+   * closes the open windows first.
+   */
+  private enqueueSummaries(all: boolean): void {
+    for (const summary of this.deduper?.summaries(all) ?? []) this.enqueue(summary);
+    for (const summary of this.rateLimiter?.summaries(all) ?? []) this.enqueue(summary);
+  }
+
+  /**
+   * Stops the summary timer and queues the summaries of all open windows.
+   */
+  private closeWindows(): void {
+    clearTimeout(this.summaryTimer);
+    this.summaryTimer = undefined;
+    this.summaryAt = Infinity;
+    this.enqueueSummaries(true);
+  }
+
+  /**
+   * Flushes queued records, including open dedupe and rate limit summaries, and underlying transports.
+   */
+  async flush(): Promise<void> {
+    this.closeWindows();
+    await Promise.all(this.lanes.map(lane => lane.flush()));
+  }
+
+  /**
+   * Registers a function run first on `dispose`, e.g. to restore a global handler.
+   * @param disposer - The function to run
+   */
+  onDispose(disposer: () => void): void {
+    this.disposers.push(disposer);
+  }
+
+  /**
+   * Restores global hooks, writes open summaries, then flushes and disposes of transports.
+   */
+  async dispose(): Promise<void> {
+    for (const disposer of this.disposers.splice(0)) disposer();
+    this.closeWindows();
+    await Promise.all(this.lanes.map(lane => lane.dispose()));
+  }
+}
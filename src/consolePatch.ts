@@ -0,0 +1,93 @@
+import type { Logger } from './Logger';
+import { isError } from './utils/errorSerializer';
+
+type ConsoleMethod = 'log' | 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<ConsoleMethod, 'debug' | 'info' | 'warn' | 'error'> = {
+  log: 'debug',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warn',
+  error: 'error'
+};
+
+// > 0 while the logger itself is running; console calls then go to the original methods
+let guard = 0;
+
+/**
+ * Runs a function with the console unpatched, so output of the logger itself
+ * (e.g. `ConsoleTransport`) reaches the real console instead of looping back.
+ * @param fn - The function to run
+ * @returns The result of `fn`
+ */
+export function withOriginalConsole<T>(fn: () => T): T {
+  guard++;
+  try {
+    return fn();
+  } finally {
+    guard--;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Turns console arguments into a message and context: strings and other
+ * primitives form the message, plain objects are merged into `ctx`, and
+ * arrays and other objects are kept under `ctx.args`. The first error is
+ * attached as `ctx.err`.
+ */
+function toRecord(args: unknown[]): { msg: string; ctx?: Record<string, unknown> } {
+  const parts: string[] = [];
+  const extra: unknown[] = [];
+  let ctx: Record<string, unknown> | undefined;
+  for (const arg of args) {
+    if (isError(arg)) {
+      parts.push(String(arg));
+      if (!ctx?.err) ctx = { ...ctx, err: arg };
+    } else if (isPlainObject(arg)) {
+      ctx = { ...ctx, ...arg };
+    } else if (arg !== null && typeof arg === 'object') {
+      extra.push(arg);
+    } else {
+      parts.push(String(arg));
+    }
+  }
+  if (extra.length > 0) ctx = { ...ctx, args: extra };
+  return { msg: parts.join(' '), ctx };
+}
+
+/**
+ * Replaces `console.log/debug/info/warn/error` with methods logging through
+ * `logger`. See `Logger.patchConsole`.
+ * @param logger - The logger records are written to
+ * @returns A function restoring the original methods
+ */
+export function installConsolePatch(logger: Pick<Logger, 'debug' | 'info' | 'warn' | 'error'>): () => void {
+  const previous: Partial<Record<ConsoleMethod, (...args: unknown[]) => void>> = {};
+  const patched: Partial<Record<ConsoleMethod, (...args: unknown[]) => void>> = {};
+  for (const method of Object.keys(LEVELS) as ConsoleMethod[]) {
+    previous[method] = console[method];
+    patched[method] = (...args: unknown[]) => {
+      if (guard > 0) {
+        // an earlier patch forwards again, down to the real console
+        previous[method]!.apply(console, args);
+        return;
+      }
+      const { msg, ctx } = toRecord(args);
+      withOriginalConsole(() => logger[LEVELS[method]](msg, ctx));
+    };
+    console[method] = patched[method]!;
+  }
+
+  return () => {
+    for (const method of Object.keys(LEVELS) as ConsoleMethod[]) {
+      // leave methods alone that were patched again by someone else
+      if (console[method] === patched[method]) console[method] = previous[method]!;
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { deflateSync, gunzipSync, gzipSync, inflateSync } from 'fflate';
+
+/** Formats rotated log files can be compressed with */
+export type CompressionFormat = 'gzip' | 'deflate';
+
+/** File name extension of each format */
+export const COMPRESSED_EXTENSIONS: Record<CompressionFormat, string> = {
+  gzip: '.gz',
+  deflate: '.deflate'
+};
+
+/**
+ * Compresses data in pure JS.  `deflate` is raw DEFLATE without a zlib header.
+ * @param data - The data to compress
+ * @param format - The format to use
+ * @returns The compressed data
+ */
+export function compress(data: Uint8Array, format: CompressionFormat): Uint8Array {
+  return format === 'gzip' ? gzipSync(data) : deflateSync(data);
+}
+
+/**
+ * Reverses `compress`.
+ * @param data - The compressed data
+ * @param format - The format it was compressed with
+ * @returns The original data
+ */
+export function decompress(data: Uint8Array, format: CompressionFormat): Uint8Array {
+  return format === 'gzip' ? gunzipSync(data) : inflateSync(data);
+}
+
+/**
+ * Tells the compression format of a file from its name.
+ * @param name - The file name
+ * @returns The format, or undefined for uncompressed files
+ */
+export function compressionOf(name: string): CompressionFormat | undefined {
+  return (Object.keys(COMPRESSED_EXTENSIONS) as CompressionFormat[])
+    .find(format => name.endsWith(COMPRESSED_EXTENSIONS[format]));
+}
@@ -0,0 +1,182 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+
+/**
+ * Encryption at rest for `FileTransport`.
+ */
+export interface FileEncryptionOptions {
+  /**
+   * Returns the 32-byte key, e.g. from the Keychain/Keystore. Called once per
+   * transport; the result is cached.
+   */
+  key: () => Uint8Array | Promise<Uint8Array>;
+  /**
+   * Source of random bytes for nonces. Defaults to `crypto.getRandomValues`,
+   * which React Native provides through `react-native-get-random-values`.
+   */
+  randomBytes?: (length: number) => Uint8Array;
+}
+
+/** Marks the start of an encrypted file; ASCII so text reads of the head can detect it */
+export const ENCRYPTED_MAGIC = 'RNSLENC1';
+
+const MAGIC_BYTES = Array.from(ENCRYPTED_MAGIC, ch => ch.charCodeAt(0));
+const NONCE_BYTES = 24;
+const TAG_BYTES = 16;
+// plaintext per frame when encrypting whole files
+const FRAME_BYTES = 64 * 1024;
+
+const keys = new WeakMap<FileEncryptionOptions, Promise<Uint8Array>>();
+
+/**
+ * Resolves and caches the key of an encryption config.
+ * @param opts - The encryption options
+ * @returns The 32-byte key
+ */
+export function resolveKey(opts: FileEncryptionOptions): Promise<Uint8Array> {
+  let key = keys.get(opts);
+  if (!key) {
+    key = Promise.resolve(opts.key()).then(value => {
+      if (!(value instanceof Uint8Array) || value.length !== 32) {
+        throw new Error('The encryption key must be a 32-byte Uint8Array');
+      }
+      return value;
+    });
+    // a failed provider is asked again on the next write
+    key.catch(() => keys.delete(opts));
+    keys.set(opts, key);
+  }
+  return key;
+}
+
+/**
+ * Returns the header every encrypted file starts with.
+ */
+export function encryptedHeader(): Uint8Array {
+  return Uint8Array.from(MAGIC_BYTES);
+}
+
+/**
+ * Encrypts data into one frame: a 4-byte big-endian length of the rest, a
+ * random 24-byte nonce and the XChaCha20-Poly1305 ciphertext with its tag.
+ * @param data - The plaintext
+ * @param key - The 32-byte key
+ * @param randomBytes - Source of random bytes for the nonce
+ * @returns The frame
+ */
+export function encryptFrame(data: Uint8Array, key: Uint8Array, randomBytes = defaultRandomBytes): Uint8Array {
+  const nonce = randomBytes(NONCE_BYTES);
+  const sealed = xchacha20poly1305(key, nonce).encrypt(data);
+  const frame = new Uint8Array(4 + NONCE_BYTES + sealed.length);
+  new DataView(frame.buffer).setUint32(0, NONCE_BYTES + sealed.length);
+  frame.set(nonce, 4);
+  frame.set(sealed, 4 + NONCE_BYTES);
+  return frame;
+}
+
+/**
+ * Encrypts a whole file: the header followed by frames of up to 64 KiB of
+ * plaintext. Used for export bundles.
+ * @param data - The plaintext
+ * @param key - The 32-byte key
+ * @param randomBytes - Source of random bytes for the nonces
+ * @returns The encrypted file contents
+ */
+export function encryptLogFile(data: Uint8Array, key: Uint8Array, randomBytes = defaultRandomBytes): Uint8Array {
+  const parts = [encryptedHeader()];
+  for (let pos = 0; pos < data.length; pos += FRAME_BYTES) {
+    parts.push(encryptFrame(data.subarray(pos, pos + FRAME_BYTES), key, randomBytes));
+  }
+  return concat(parts);
+}
+
+/**
+ * Decrypts a file written by an encrypted `FileTransport`, or an encrypted
+ * export bundle. Works in Node, e.g. to read bundles sent by users:
+ *
+ * ```typescript
+ * const data = decryptLogFile(fs.readFileSync('logs-export-1700000000000.ndjson.gz.enc'), key);
+ * const ndjson = zlib.gunzipSync(data).toString('utf8');
+ * ```
+ *
+ * A torn frame (the app died mid-write) is skipped: decryption resumes at the
+ * next frame that authenticates, so batches appended after it are kept.
+ * @param data - The encrypted file contents
+ * @param key - The 32-byte key
+ * @returns The concatenated plaintext of all frames
+ * @throws If the data is not an encrypted log file or a whole frame fails authentication
+ */
+export function decryptLogFile(data: Uint8Array, key: Uint8Array): Uint8Array {
+  if (!isEncrypted(data)) {
+    throw new Error('Not an encrypted log file');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frameEnd = (pos: number): number | undefined => {
+    if (pos + 4 > data.length) return undefined;
+    const length = view.getUint32(pos);
+    return length >= NONCE_BYTES + TAG_BYTES && pos + 4 + length <= data.length ? pos + 4 + length : undefined;
+  };
+  const parts: Uint8Array[] = [];
+  // the frame at the last known boundary that failed authentication
+  let failed: { pos: number; end: number } | undefined;
+  let synced = true;
+  let pos = MAGIC_BYTES.length;
+  while (pos + 4 <= data.length) {
+    const end = frameEnd(pos);
+    // after a torn frame, only offsets followed by another frame or the end of the data are tried
+    if (end !== undefined && (synced || end === data.length || frameEnd(end) !== undefined)) {
+      const plain = openFrame(data, pos, end, key);
+      if (plain) {
+        // a torn frame overlaps the next one; a whole frame that failed was tampered with
+        if (failed && pos >= failed.end) break;
+        parts.push(plain);
+        failed = undefined;
+        synced = true;
+        pos = end;
+        continue;
+      }
+      if (synced) failed = { pos, end };
+    }
+    synced = false;
+    pos++;
+  }
+  if (failed) {
+    throw new Error(`Log frame at byte ${failed.pos} failed authentication (wrong key or tampered file)`);
+  }
+  return concat(parts);
+}
+
+function openFrame(data: Uint8Array, pos: number, end: number, key: Uint8Array): Uint8Array | undefined {
+  const nonce = data.subarray(pos + 4, pos + 4 + NONCE_BYTES);
+  try {
+    return xchacha20poly1305(key, nonce).decrypt(data.subarray(pos + 4 + NONCE_BYTES, end));
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Tests whether file contents start with the encrypted-file header.
+ * @param data - The file contents, or at least their first 8 bytes
+ * @returns True for encrypted files
+ */
+export function isEncrypted(data: Uint8Array): boolean {
+  return MAGIC_BYTES.every((byte, i) => data[i] === byte);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function defaultRandomBytes(length: number): Uint8Array {
+  const crypto = (globalThis as { crypto?: { getRandomValues?(array: Uint8Array): Uint8Array } }).crypto;
+  if (!crypto?.getRandomValues) {
+    throw new Error('crypto.getRandomValues is not available; install react-native-get-random-values or pass randomBytes');
+  }
+  return crypto.getRandomValues(new Uint8Array(length));
+}
@@ -0,0 +1,169 @@
+import { gzipSync, strToU8 } from 'fflate';
+import { LogLevel, LogRecord, Redactor } from '../types';
+import { FileTransportInstance } from '../transports/FileTransport';
+import { matchNamespace } from '../utils/namespace';
+import { byteLength } from '../utils/serializer';
+import { VERSION } from '../version';
+import { readLogFiles, toTimestamp, writeFile } from './readLogFiles';
+import { encryptLogFile, resolveKey } from './encryption';
+
+/**
+ * Options for `exportLogs`.
+ */
+export interface ExportLogsOptions {
+  /** Only records at or after this time */
+  since?: number | Date;
+  /** Only records at or before this time */
+  until?: number | Date;
+  /** Only records with one of these levels */
+  levels?: LogLevel[];
+  /** Only records whose namespace matches one of these globs, e.g. `api:*` */
+  namespaces?: string[];
+  /** Maximum size of the uncompressed bundle in bytes; the newest records are kept. */
+  maxBytes?: number;
+  /** Gzip the bundle (`.ndjson.gz`). Requires a storage adapter with `writeBytes`. */
+  gzip?: boolean;
+  /**
+   * Encrypt the bundle (`.enc`) with the transport's key; decrypt it with
+   * `decryptLogFile`. Defaults to true when the transport uses `encryption`.
+   */
+  encrypt?: boolean;
+  /** Base name of the bundle and manifest files. Defaults to `logs-export-<timestamp>`. */
+  name?: string;
+  /** Directory the bundle is written to. Defaults to the directory of the storage. */
+  directory?: string;
+  /** Redactor applied again to every exported record, e.g. with rules added since the logs were written */
+  redactor?: Redactor;
+  /** Device/application metadata recorded in the manifest */
+  device?: Record<string, unknown>;
+}
+
+/**
+ * Describes an exported bundle. Written next to it as `<name>.manifest.json`.
+ */
+export interface ExportManifest {
+  /** ISO time of the export */
+  createdAt: string;
+  /** Version of rn-structured-logger that wrote the bundle */
+  loggerVersion: string;
+  /** Device metadata passed to the export */
+  device?: Record<string, unknown>;
+  /** File name of the bundle */
+  bundle: string;
+  /** True when the bundle is gzipped */
+  compressed: boolean;
+  /** True when the bundle is encrypted; gzip, if any, is applied before encryption */
+  encrypted: boolean;
+  /** Number of records in the bundle */
+  recordCount: number;
+  /** Timestamp of the oldest exported record */
+  firstTs?: number;
+  /** Timestamp of the newest exported record */
+  lastTs?: number;
+  /** Names of the log files that were read */
+  files: string[];
+  /** True when older records were left out to honour `maxBytes` */
+  truncated: boolean;
+}
+
+/**
+ * Result of `exportLogs`.
+ */
+export interface ExportResult {
+  /** Path of the bundle, ready to attach to a share sheet or upload */
+  path: string;
+  /** Path of the manifest */
+  manifestPath: string;
+  manifest: ExportManifest;
+}
+
+/**
+ * Exports the records written by a FileTransport as a single NDJSON bundle,
+ * for "send logs to support" flows. The active and rotated files are read,
+ * filtered, merged in timestamp order and passed through `redactor` once more
+ * before being written. A JSON manifest with device info and the logger
+ * version is written next to the bundle. Lines that are not JSON records
+ * (written by a non-JSON formatter) are skipped. Encrypted files are
+ * decrypted, and the bundle is encrypted again unless `encrypt` is false.
+ *
+ * @param transport - The FileTransport whose files are exported
+ * @param opts - Filters, size limit and output options
+ * @returns Paths of the bundle and manifest, and the manifest itself
+ *
+ * @example
+ * ```typescript
+ * const files = FileTransport({ maxFiles: 5 });
+ * // ...
+ * const { path } = await exportLogs(files, {
+ *   since: Date.now() - 24 * 60 * 60 * 1000,
+ *   gzip: true,
+ *   maxBytes: 2 * 1024 * 1024
+ * });
+ * await Share.open({ url: `file://${path}` });
+ * ```
+ */
+export async function exportLogs(transport: FileTransportInstance, opts: ExportLogsOptions = {}): Promise<ExportResult> {
+  const { storage, encryption } = transport;
+  const encrypt = opts.encrypt ?? !!encryption;
+  if (encrypt && !encryption) {
+    throw new Error('Encrypted export requires a FileTransport with encryption');
+  }
+  const since = toTimestamp(opts.since) ?? -Infinity;
+  const until = toTimestamp(opts.until) ?? Infinity;
+  const createdAt = Date.now();
+
+  // files entirely outside the time range are not read at all
+  const files = (await transport.listLogFiles()).filter(file =>
+    (file.endTs === undefined || file.endTs >= since) && (file.startTs === undefined || file.startTs <= until));
+
+  const records: LogRecord[] = [];
+  for await (const rec of readLogFiles(transport, files)) {
+    if (rec.ts < since || rec.ts > until) continue;
+    if (opts.levels && !opts.levels.includes(rec.level)) continue;
+    if (opts.namespaces && !opts.namespaces.some(p => matchNamespace(p, rec.ns))) continue;
+    records.push(opts.redactor ? opts.redactor(rec) : rec);
+  }
+  // stable sort: records with equal timestamps keep their file order
+  records.sort((a, b) => a.ts - b.ts);
+
+  let lines = records.map(rec => JSON.stringify(rec));
+  let truncated = false;
+  if (opts.maxBytes !== undefined) {
+    let total = 0;
+    let start = lines.length;
+    while (start > 0 && total + byteLength(lines[start - 1]) + 1 <= opts.maxBytes) {
+      total += byteLength(lines[--start]) + 1;
+    }
+    truncated = start > 0;
+    lines = lines.slice(start);
+    records.splice(0, start);
+  }
+
+  const dir = opts.directory ?? storage.directory;
+  const name = opts.name ?? `logs-export-${createdAt}`;
+  const bundle = `${name}.ndjson${opts.gzip ? '.gz' : ''}${encrypt ? '.enc' : ''}`;
+  const text = lines.map(line => `${line}\n`).join('');
+  const manifest: ExportManifest = {
+    createdAt: new Date(createdAt).toISOString(),
+    loggerVersion: VERSION,
+    device: opts.device,
+    bundle,
+    compressed: !!opts.gzip,
+    encrypted: encrypt,
+    recordCount: records.length,
+    firstTs: records[0]?.ts,
+    lastTs: records[records.length - 1]?.ts,
+    files: files.map(file => file.name),
+    truncated
+  };
+
+  const path = `${dir}/${bundle}`;
+  const manifestPath = `${dir}/${name}.manifest.json`;
+  let data: string | Uint8Array = opts.gzip ? gzipSync(strToU8(text)) : text;
+  if (encrypt) {
+    data = encryptLogFile(typeof data === 'string' ? strToU8(data) : data, await resolveKey(encryption!), encryption!.randomBytes);
+  }
+  await writeFile(storage, path, data);
+  await writeFile(storage, manifestPath, JSON.stringify(manifest, null, 2));
+  return { path, manifestPath, manifest };
+}
@@ -0,0 +1,173 @@
+import { LogLevel, LogRecord } from '../types';
+import { FileTransportInstance, LogFileInfo } from '../transports/FileTransport';
+import { levelAtLeast } from '../utils/levels';
+import { matchNamespace } from '../utils/namespace';
+import { readFileRecords, toTimestamp } from './readLogFiles';
+
+/**
+ * Filters and paging for `queryLogs`.  All filters must match.
+ */
+export interface QueryLogsOptions {
+  /** Minimum level, e.g. `error` also returns `fatal` */
+  level?: LogLevel;
+  /** Namespace glob, e.g. `api:*` */
+  ns?: string;
+  /** Exact correlation ID */
+  correlationId?: string;
+  /** Case-insensitive text searched in `msg` and the error message */
+  text?: string;
+  /** Fields of `ctx` that must equal the given values. Keys may be dotted paths, e.g. `user.id`. */
+  ctx?: Record<string, unknown>;
+  /** Only records at or after this time */
+  since?: number | Date;
+  /** Only records at or before this time */
+  until?: number | Date;
+  /** `asc` (oldest first, the default) or `desc` (newest first) */
+  order?: 'asc' | 'desc';
+  /** Maximum number of records returned */
+  limit?: number;
+  /** `cursor` of a previous query, to continue after its last record */
+  cursor?: string;
+}
+
+/**
+ * Records matching a query, as an async iterator.
+ */
+export interface LogQuery extends AsyncIterableIterator<LogRecord> {
+  /**
+   * Position after the last record returned so far. Pass it as `cursor` with
+   * the same filters to get the next page. Undefined until a record is returned
+   * (or the query's own `cursor` if none is).
+   */
+  readonly cursor: string | undefined;
+}
+
+// where a query stopped: `r` is the rotation time of the file, or null for the
+// file that was active while the newest rotated file was the one rotated at `t`;
+// `o` is the byte offset to continue from
+interface Position {
+  r: number | null;
+  t: number;
+  o: number;
+}
+
+/**
+ * Searches the records written by a FileTransport. Files are streamed in
+ * chunks, oldest first (or newest first with `order: 'desc'`), and records are
+ * returned as they are found, so memory use does not grow with the size of the
+ * logs. Stop iterating at any time; the `cursor` of the query resumes after the
+ * last record returned, even if the files were rotated in between. Records are
+ * returned in file order, which is the order they were written in. Records
+ * still queued in the logger are not included; flush first to see them.
+ *
+ * @param transport - The FileTransport whose files are searched
+ * @param opts - Filters and paging
+ * @returns An async iterator over the matching records
+ *
+ * @example
+ * ```typescript
+ * // the last 200 errors of this session
+ * const query = queryLogs(fileTransport, { level: 'error', correlationId: sessionId, order: 'desc', limit: 200 });
+ * for await (const record of query) {
+ *   rows.push(record);
+ * }
+ * const next = query.cursor; // pass as `cursor` to load the next page
+ * ```
+ */
+export function queryLogs(transport: FileTransportInstance, opts: QueryLogsOptions = {}): LogQuery {
+  const desc = opts.order === 'desc';
+  const since = toTimestamp(opts.since) ?? -Infinity;
+  const until = toTimestamp(opts.until) ?? Infinity;
+  const limit = opts.limit ?? Infinity;
+  const text = opts.text?.toLowerCase();
+  const ctx = opts.ctx ? Object.keys(opts.ctx).map(key => [key.split('.'), opts.ctx![key]] as const) : [];
+  let cursor = opts.cursor;
+
+  function matches(rec: LogRecord): boolean {
+    if (rec.ts < since || rec.ts > until) return false;
+    if (opts.level && !levelAtLeast(rec.level, opts.level)) return false;
+    if (opts.ns !== undefined && !matchNamespace(opts.ns, rec.ns)) return false;
+    if (opts.correlationId !== undefined && rec.correlationId !== opts.correlationId) return false;
+    if (text && !rec.msg.toLowerCase().includes(text) && !rec.err?.message?.toLowerCase().includes(text)) {
+      return false;
+    }
+    return ctx.every(([path, value]) => equals(getPath(rec.ctx, path), value));
+  }
+
+  async function* run(): AsyncGenerator<LogRecord> {
+    if (limit <= 0) return;
+    let files = await transport.listLogFiles();
+    // rotation times only grow, so the active file can be found again once rotated
+    const lastRotation = Math.max(0, ...files.filter(file => !file.active).map(file => file.endTs ?? 0));
+    // files entirely outside the time range are not read at all
+    files = files.filter(file =>
+      (file.endTs === undefined || file.endTs >= since) && (file.startTs === undefined || file.startTs <= until));
+    if (desc) files.reverse();
+    let index = 0;
+    let from: number | undefined;
+    if (opts.cursor) {
+      ({ index, from } = resume(files, decodeCursor(opts.cursor), desc));
+    }
+    let count = 0;
+    for (; index < files.length; index++, from = undefined) {
+      const file = files[index];
+      for await (const { record, start, end } of readFileRecords(transport, file, desc, from)) {
+        if (!matches(record)) continue;
+        const position: Position = { r: file.active ? null : file.endTs ?? 0, t: lastRotation, o: desc ? start : end };
+        cursor = JSON.stringify(position);
+        yield record;
+        if (++count >= limit) return;
+      }
+    }
+  }
+
+  const query = run() as LogQuery;
+  Object.defineProperty(query, 'cursor', { get: () => cursor });
+  return query;
+}
+
+/**
+ * Finds where a cursor continues in the current list of files (in query
+ * order). The file that was active when the cursor was created is the first
+ * one rotated after the then newest rotated file, if any. A file that has been
+ * pruned since is skipped.
+ */
+function resume(files: LogFileInfo[], pos: Position, desc: boolean): { index: number; from?: number } {
+  const key = (file: LogFileInfo) => (file.active ? Infinity : file.endTs ?? 0);
+  let target = pos.r ?? Infinity;
+  if (pos.r === null) {
+    const rotated = files.filter(file => !file.active && key(file) > pos.t).map(key);
+    if (rotated.length > 0) target = Math.min(...rotated);
+  }
+  const exact = files.findIndex(file => key(file) === target);
+  if (exact >= 0) return { index: exact, from: pos.o };
+  const next = files.findIndex(file => (desc ? key(file) < target : key(file) > target));
+  return { index: next >= 0 ? next : files.length };
+}
+
+function decodeCursor(cursor: string): Position {
+  try {
+    const pos = JSON.parse(cursor);
+    if ((typeof pos.r === 'number' || pos.r === null) && typeof pos.t === 'number' && typeof pos.o === 'number') {
+      return pos;
+    }
+  } catch (err) {
+    // fall through
+  }
+  throw new Error(`Invalid log query cursor: ${cursor}`);
+}
+
+function getPath(value: unknown, path: readonly string[]): unknown {
+  for (const key of path) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // records come from JSON, so structured values compare by their JSON form
+  return typeof a === 'object' && typeof b === 'object' && a !== null && b !== null &&
+    JSON.stringify(a) === JSON.stringify(b);
+}
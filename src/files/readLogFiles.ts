@@ -0,0 +1,186 @@
+import { strToU8 } from 'fflate';
+import { LogRecord, LogStorage } from '../types';
+import { FileTransportInstance, LogFileInfo } from '../transports/FileTransport';
+import { byteLength } from '../utils/serializer';
+import { decodeUtf8Range } from '../utils/utf8';
+import { decryptLogFile, resolveKey } from './encryption';
+import { decompress } from './compression';
+
+// bytes read at a time; lines longer than this are read with a larger chunk
+const CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Converts a `since`/`until` bound to milliseconds since epoch.
+ * @param value - A timestamp, a Date, or undefined
+ * @returns The timestamp, or undefined when no bound is given
+ */
+export function toTimestamp(value: number | Date | undefined): number | undefined {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Parses one line of a log file.  Only JSON objects with a numeric `ts` and
+ * string `level` and `msg` are records; anything else (lines written by a
+ * non-JSON formatter, a torn last line) is ignored.
+ * @param line - A line without its newline
+ * @returns The record, or undefined if the line is not one
+ */
+export function parseLine(line: string): LogRecord | undefined {
+  if (!line.startsWith('{')) return undefined;
+  try {
+    const rec = JSON.parse(line);
+    if (typeof rec.ts === 'number' && typeof rec.level === 'string' && typeof rec.msg === 'string') {
+      return rec as LogRecord;
+    }
+  } catch (err) {
+    // not JSON
+  }
+  return undefined;
+}
+
+/**
+ * A record read from a log file, with the byte range of its line.
+ */
+export interface FileRecord {
+  record: LogRecord;
+  /** Byte offset of the start of the line */
+  start: number;
+  /** Byte offset just past the line's newline */
+  end: number;
+}
+
+// the plain text of a log file, read in byte ranges
+interface FileSource {
+  size: number;
+  read(length: number, position: number): Promise<string>;
+}
+
+/**
+ * Opens a log file for ranged reads.  Plain files are read from storage range
+ * by range; encrypted or compressed files are decoded whole, so offsets refer
+ * to the plain text.
+ */
+async function openFile(transport: FileTransportInstance, file: LogFileInfo): Promise<FileSource> {
+  if (!file.encrypted && !file.compressed) {
+    return { size: file.size, read: (length, position) => transport.storage.read(file.path, length, position) };
+  }
+  const { storage, encryption } = transport;
+  if (file.encrypted && !encryption) {
+    throw new Error(`${file.name} is encrypted but the FileTransport has no encryption key`);
+  }
+  if (!storage.readBytes) {
+    throw new Error('Reading encrypted or compressed files requires a storage adapter with readBytes');
+  }
+  let data = await storage.readBytes(file.path);
+  if (file.encrypted) data = decryptLogFile(data, await resolveKey(encryption!));
+  if (file.compressed) data = decompress(data, file.compressed);
+  return { size: data.length, read: async (length, position) => decodeUtf8Range(data.subarray(position, position + length)) };
+}
+
+/**
+ * Streams the records of one log file in fixed-size chunks, forwards or
+ * backwards, so only about one chunk is held in memory (encrypted and
+ * compressed files are decoded whole first).  Reading stops at the size the file had when it was
+ * listed; lines appended since are not read.
+ * @param transport - The FileTransport that wrote the file
+ * @param file - The file, as listed by `FileTransportInstance.listLogFiles()`
+ * @param reverse - Read from the end towards the start
+ * @param from - Byte offset to start at (forwards) or stop before (backwards). Must be a line boundary.
+ * @returns An async iterator over the records and their byte ranges
+ */
+export async function* readFileRecords(
+  transport: FileTransportInstance,
+  file: LogFileInfo,
+  reverse = false,
+  from?: number
+): AsyncGenerator<FileRecord> {
+  const source = await openFile(transport, file);
+  let chunk = CHUNK_BYTES;
+  if (!reverse) {
+    let pos = from ?? 0;
+    while (pos < source.size) {
+      const text = await source.read(Math.min(chunk, source.size - pos), pos);
+      if (!text) return;
+      const last = text.lastIndexOf('\n');
+      const atEnd = pos + chunk >= source.size;
+      if (last < 0 && !atEnd) {
+        // a line longer than the chunk
+        chunk *= 2;
+        continue;
+      }
+      // without a final newline the rest of the file is a torn last line
+      const lines = text.slice(0, last < 0 ? text.length : last + 1).split('\n');
+      if (last >= 0) lines.pop();
+      for (const line of lines) {
+        const start = pos;
+        pos += byteLength(line) + 1;
+        const record = parseLine(line);
+        if (record) yield { record, start, end: pos };
+      }
+      chunk = CHUNK_BYTES;
+    }
+  } else {
+    let end = from ?? source.size;
+    while (end > 0) {
+      const start = Math.max(0, end - chunk);
+      const text = await source.read(end - start, start);
+      if (!text) return;
+      // the text before the first newline belongs to a line that starts earlier
+      const rest = start > 0 ? text.slice(text.indexOf('\n') + 1) : text;
+      if (start > 0 && (text.indexOf('\n') < 0 || rest === '')) {
+        chunk *= 2;
+        continue;
+      }
+      const lines = rest.split('\n');
+      let pos = end;
+      for (let i = lines.length - 1; i >= 0; i--) {
+        // the last element follows the last newline: empty, or a torn last line
+        const lineEnd = pos;
+        pos -= byteLength(lines[i]) + (i < lines.length - 1 ? 1 : 0);
+        const record = parseLine(lines[i]);
+        if (record) yield { record, start: pos, end: lineEnd };
+      }
+      end = pos;
+      chunk = CHUNK_BYTES;
+    }
+  }
+}
+
+/**
+ * Reads the records of the given log files in order, streaming each file.
+ * Files that vanish while reading (e.g. pruned) are skipped.
+ * @param transport - The FileTransport that wrote the files
+ * @param files - Files as returned by `FileTransportInstance.listLogFiles()`
+ * @returns An async iterator over the records
+ * @throws If a file is encrypted and the transport has no key
+ */
+export async function* readLogFiles(transport: FileTransportInstance, files: LogFileInfo[]): AsyncGenerator<LogRecord> {
+  for (const file of files) {
+    try {
+      for await (const { record } of readFileRecords(transport, file)) {
+        yield record;
+      }
+    } catch (err) {
+      if (!(await transport.storage.stat(file.path))) continue;
+      throw err;
+    }
+  }
+}
+
+/**
+ * Writes a whole file, replacing any previous contents.  Uses `writeBytes` when
+ * the storage has it, otherwise deletes and appends.
+ * @param storage - Storage to write to
+ * @param path - Path of the file
+ * @param data - Text or bytes; bytes require `writeBytes`
+ */
+export async function writeFile(storage: LogStorage, path: string, data: string | Uint8Array): Promise<void> {
+  if (storage.writeBytes) {
+    await storage.writeBytes(path, typeof data === 'string' ? strToU8(data) : data);
+  } else if (typeof data === 'string') {
+    await storage.delete(path);
+    await storage.append(path, data);
+  } else {
+    throw new Error('The storage adapter cannot write binary files (writeBytes is missing)');
+  }
+}
@@ -0,0 +1,55 @@
+import { Formatter, LogRecord } from '../types';
+import { normalizeRecord } from '../utils/serializer';
+
+/**
+ * Options for the Elastic Common Schema formatter.
+ */
+export interface EcsFormatterOptions {
+  /** Value of `service.name`. Omitted when not set. */
+  serviceName?: string;
+  /** Field under which `ctx` is written. Defaults to `ctx`; pass `''` to merge it at the top level. */
+  ctxField?: string;
+}
+
+const ECS_VERSION = '8.11.0';
+
+/**
+ * Creates a formatter that writes records as Elastic Common Schema (ECS) JSON,
+ * following the ecs-logging conventions: `@timestamp`, `log.level`, `message`,
+ * `ecs.version`, `log.logger` (namespace), `labels.correlation_id`, `error.*`
+ * and `device`. Batches are written as NDJSON, ready for the Elasticsearch
+ * bulk-style ingestion most shippers expect.
+ * @param opts - Service name and ctx placement
+ * @returns A Formatter producing ECS JSON
+ */
+export function EcsFormatter(opts: EcsFormatterOptions = {}): Formatter {
+  const ctxField = opts.ctxField ?? 'ctx';
+  const format = (raw: LogRecord): string => {
+    const rec = normalizeRecord(raw);
+    const doc: Record<string, unknown> = ctxField === '' ? { ...rec.ctx } : {};
+    Object.assign(doc, {
+      '@timestamp': new Date(rec.ts).toISOString(),
+      'log.level': rec.level,
+      message: rec.msg,
+      'ecs.version': ECS_VERSION
+    });
+    if (ctxField !== '' && rec.ctx) doc[ctxField] = rec.ctx;
+    if (rec.ns) doc.log = { logger: rec.ns };
+    if (opts.serviceName) doc.service = { name: opts.serviceName };
+    if (rec.correlationId) doc.labels = { correlation_id: rec.correlationId };
+    if (rec.err) {
+      doc.error = { type: rec.err.name, message: rec.err.message, stack_trace: rec.err.stack };
+    }
+    if (rec.device) doc.device = rec.device;
+    if (rec.truncated) doc.truncated = true;
+    return JSON.stringify(doc);
+  };
+  return {
+    name: 'ecs',
+    contentType: 'application/x-ndjson',
+    format,
+    formatBatch(batch: LogRecord[]): string {
+      return batch.map(format).join('\n') + '\n';
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import { Formatter, LogLevel, LogRecord } from '../types';
+import { normalizeRecord } from '../utils/serializer';
+import { flatten } from '../utils/flatten';
+
+/**
+ * Options for the GELF formatter.
+ */
+export interface GelfFormatterOptions {
+  /** Value of the GELF `host` field. Defaults to `device.deviceModel`, then `unknown`. */
+  host?: string;
+}
+
+/** Syslog severities used by GELF */
+const SYSLOG_LEVEL: Record<LogLevel, number> = {
+  trace: 7,
+  debug: 7,
+  info: 6,
+  warn: 4,
+  error: 3,
+  fatal: 2
+};
+
+// `_id` is reserved by GELF; the rest are fields this formatter writes itself
+const RESERVED = /^(id|level_name|ns|correlation_id)$|^(device|error)(_|$)/;
+
+/**
+ * Creates a formatter that writes records as GELF 1.1 messages for Graylog.
+ * `msg` becomes `short_message`, the error stack `full_message`, and `ns`,
+ * `correlationId`, `ctx` and `device` become `_`-prefixed additional fields
+ * (nested keys joined with `_`; non-scalar values are JSON-encoded). Context
+ * keys that would clash with another field, or GELF's reserved `_id`, get a
+ * `_ctx_` prefix instead. Batches are posted as a JSON array.
+ * @param opts - Host name
+ * @returns A Formatter producing GELF JSON
+ */
+export function GelfFormatter(opts: GelfFormatterOptions = {}): Formatter {
+  const format = (raw: LogRecord): string => {
+    const rec = normalizeRecord(raw);
+    const msg: Record<string, unknown> = {
+      version: '1.1',
+      host: opts.host ?? (rec.device?.deviceModel as string | undefined) ?? 'unknown',
+      short_message: rec.msg,
+      timestamp: rec.ts / 1000,
+      level: SYSLOG_LEVEL[rec.level]
+    };
+    if (rec.err) msg.full_message = rec.err.stack ?? `${rec.err.name}: ${rec.err.message}`;
+    const extra = flatten(
+      {
+        level_name: rec.level,
+        ns: rec.ns,
+        correlation_id: rec.correlationId,
+        device: rec.device,
+        error: rec.err ? { name: rec.err.name, message: rec.err.message } : undefined
+      },
+      '_'
+    );
+    for (const [key, value] of Object.entries(flatten({ ...rec.ctx }, '_'))) {
+      extra[RESERVED.test(key) ? `ctx_${key}` : key] = value;
+    }
+    for (const [key, value] of Object.entries(extra)) {
+      // additional fields are limited to [\w.-]
+      msg[`_${key.replace(/[^\w.-]/g, '_')}`] =
+        typeof value === 'string' || typeof value === 'number' ? value : JSON.stringify(value);
+    }
+    return JSON.stringify(msg);
+  };
+  return {
+    name: 'gelf',
+    contentType: 'application/json',
+    format,
+    formatBatch(batch: LogRecord[]): string {
+      return `[${batch.map(format).join(',')}]`;
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import { Formatter, LogRecord, Serializer, SerializerOptions } from '../types';
+import { makeSerializer } from '../utils/serializer';
+
+/**
+ * Options for the JSON formatter.
+ */
+export interface JsonFormatterOptions extends SerializerOptions {
+  /** Serializer used for each record. Defaults to `makeSerializer()` with the given limits. */
+  serializer?: Serializer;
+}
+
+/**
+ * Creates a formatter that writes each record as one JSON object, and batches
+ * as a JSON array. This is the default formatter of the file and HTTP transports.
+ * @param opts - Serializer or serializer limits
+ * @returns A Formatter producing JSON
+ */
+export function JsonFormatter(opts: JsonFormatterOptions = {}): Formatter {
+  const { serializer, ...limits } = opts;
+  const serialize = serializer ?? makeSerializer(limits);
+  return {
+    name: 'json',
+    contentType: 'application/json',
+    format: serialize,
+    formatBatch(batch: LogRecord[]): string {
+      return `[${batch.map(serialize).join(',')}]`;
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { Formatter, LogRecord } from '../types';
+import { normalizeRecord } from '../utils/serializer';
+import { flatten } from '../utils/flatten';
+
+/**
+ * Creates a formatter that writes records as logfmt lines, e.g.
+ * `ts=2024-01-15T10:30:45.123Z level=info ns=auth msg="Login ok" userId=42`.
+ * Nested `ctx` keys are flattened with dots; the error fields are written as
+ * `err.name`, `err.message` and `err.stack`. Context keys that would clash with
+ * a record field are written with a `ctx.` prefix, and characters a key cannot
+ * hold (whitespace, `=`, `"`, `\`) are replaced with `_`.
+ * @returns A Formatter producing logfmt
+ */
+export function LogfmtFormatter(): Formatter {
+  return {
+    name: 'logfmt',
+    contentType: 'text/plain',
+    format(raw: LogRecord): string {
+      const rec = normalizeRecord(raw);
+      const fields: Record<string, unknown> = {
+        ts: new Date(rec.ts).toISOString(),
+        level: rec.level,
+        ns: rec.ns,
+        msg: rec.msg,
+        correlationId: rec.correlationId,
+        ...ctxFields(rec.ctx),
+        ...(rec.err ? flatten({ err: { name: rec.err.name, message: rec.err.message, stack: rec.err.stack } }) : {}),
+        ...(rec.device ? flatten({ device: rec.device }) : {}),
+        truncated: rec.truncated
+      };
+      return Object.keys(fields)
+        .filter(key => fields[key] !== undefined)
+        .map(key => `${escapeKey(key)}=${quote(fields[key])}`)
+        .join(' ');
+    }
+  };
+}
+
+// record fields a context key may not overwrite
+const RESERVED = /^(ts|level|ns|msg|correlationId|truncated)$|^(err|device)(\.|$)/;
+
+function ctxFields(ctx: Record<string, unknown> | undefined): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flatten({ ...ctx }))) {
+    out[RESERVED.test(key) ? `ctx.${key}` : key] = value;
+  }
+  return out;
+}
+
+function escapeKey(key: string): string {
+  return key === '' ? '_' : key.replace(/[\s="\\]/g, '_');
+}
+
+function quote(value: unknown): string {
+  const str = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  if (str === '' || /[\s="\\]/.test(str)) {
+    return JSON.stringify(str);
+  }
+  return str;
+}
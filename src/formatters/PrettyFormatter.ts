@@ -0,0 +1,36 @@
+import { Formatter, LogRecord } from '../types';
+import { normalizeRecord } from '../utils/serializer';
+
+/**
+ * Options for the pretty-text formatter.
+ */
+export interface PrettyFormatterOptions {
+  /** Include `device` in the output. Defaults to false. */
+  includeDevice?: boolean;
+}
+
+/**
+ * Creates a formatter that writes human-readable lines in the same layout as
+ * `ConsoleTransport`:
+ * `[2024-01-15T10:30:45.123Z] auth:login INFO: Login ok {"userId":42}`.
+ * When the record carries an error, its stack follows on the next lines.
+ * @param opts - Output options
+ * @returns A Formatter producing readable text
+ */
+export function PrettyFormatter(opts: PrettyFormatterOptions = {}): Formatter {
+  return {
+    name: 'pretty',
+    contentType: 'text/plain',
+    format(raw: LogRecord): string {
+      const rec = normalizeRecord(raw);
+      const timestamp = new Date(rec.ts).toISOString();
+      let line = `[${timestamp}] ${rec.ns ?? '-'} ${rec.level.toUpperCase()}: ${rec.msg}`;
+      const extra: Record<string, unknown> = { ...rec.ctx };
+      if (rec.correlationId) extra.correlationId = rec.correlationId;
+      if (opts.includeDevice && rec.device) extra.device = rec.device;
+      if (Object.keys(extra).length > 0) line += ` ${JSON.stringify(extra)}`;
+      if (rec.err) line += `\n${rec.err.stack ?? `${rec.err.name}: ${rec.err.message}`}`;
+      return line;
+    }
+  };
+}
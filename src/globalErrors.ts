@@ -0,0 +1,202 @@
+import type { Logger } from './Logger';
+import { isError } from './utils/errorSerializer';
+import { withOriginalConsole } from './consolePatch';
+import { reportInternal } from './utils/debug';
+
+/**
+ * Handler installed through React Native's `ErrorUtils.setGlobalHandler`.
+ */
+export type GlobalErrorHandler = (error: unknown, isFatal?: boolean) => void;
+
+/**
+ * The parts of React Native's `ErrorUtils` global used to chain the handler.
+ */
+export interface ErrorUtilsLike {
+  getGlobalHandler(): GlobalErrorHandler | undefined;
+  setGlobalHandler(handler: GlobalErrorHandler): void;
+}
+
+/**
+ * Installs a tracker for unhandled promise rejections and returns a function
+ * removing it, if it can be removed.
+ */
+export type RejectionTracker = (onUnhandled: (reason: unknown) => void) => (() => void) | void;
+
+/**
+ * Options for `captureGlobalErrors`.
+ */
+export interface CaptureGlobalErrorsOptions {
+  /** Capture uncaught errors through `ErrorUtils`. Defaults to true. */
+  errors?: boolean;
+  /** Capture unhandled promise rejections. Defaults to true. */
+  unhandledRejections?: boolean;
+  /** Level of unhandled rejection records. Defaults to `error`. */
+  rejectionLevel?: 'error' | 'fatal';
+  /**
+   * How long to wait for the flush before the previous handler runs; a fatal
+   * error usually terminates the app in it. Defaults to 1000 ms.
+   */
+  flushTimeoutMs?: number;
+  /** `ErrorUtils` to chain onto. Defaults to the React Native global; pass a mock in tests. */
+  errorUtils?: ErrorUtilsLike;
+  /**
+   * Installs the rejection tracker. Defaults to Hermes' promise rejection
+   * tracker, or an `unhandledrejection` event listener where available.
+   */
+  trackRejections?: RejectionTracker;
+}
+
+interface RejectionGlobals {
+  ErrorUtils?: ErrorUtilsLike;
+  HermesInternal?: {
+    enablePromiseRejectionTracker?(opts: {
+      allRejections: boolean;
+      onUnhandled(id: number, rejection: unknown): void;
+      onHandled?(id: number): void;
+    }): void;
+  };
+  addEventListener?(type: 'unhandledrejection', listener: (event: { reason: unknown }) => void): void;
+  removeEventListener?(type: 'unhandledrejection', listener: (event: { reason: unknown }) => void): void;
+  __DEV__?: boolean;
+}
+
+const globals = globalThis as unknown as RejectionGlobals;
+
+/**
+ * The default rejection tracker. Hermes' tracker cannot be chained or removed;
+ * in development the rejection is still passed to `console.warn` as React
+ * Native's own tracker does, so the LogBox warning is kept.
+ */
+const defaultTrackRejections: RejectionTracker = onUnhandled => {
+  const hermes = globals.HermesInternal;
+  if (hermes?.enablePromiseRejectionTracker) {
+    hermes.enablePromiseRejectionTracker({
+      allRejections: true,
+      onUnhandled: (id, rejection) => {
+        onUnhandled(rejection);
+        if (globals.__DEV__) {
+          withOriginalConsole(() => console.warn(`Possible Unhandled Promise Rejection (id: ${id}):`, rejection));
+        }
+      }
+    });
+    return undefined;
+  }
+  if (globals.addEventListener && globals.removeEventListener) {
+    const listener = (event: { reason: unknown }) => onUnhandled(event.reason);
+    globals.addEventListener('unhandledrejection', listener);
+    return () => globals.removeEventListener!('unhandledrejection', listener);
+  }
+  return undefined;
+};
+
+function toError(value: unknown): Error {
+  if (isError(value)) return value;
+  let message: string;
+  try {
+    message = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  } catch (err) {
+    message = String(value);
+  }
+  return new Error(message);
+}
+
+/**
+ * Logs uncaught JS errors and unhandled promise rejections. Uncaught errors
+ * are logged at `fatal` when React Native reports them as fatal, otherwise at
+ * `error`, with the serialized error in `err`. The logger is then flushed, so
+ * a FileTransport persists the record, before control is handed back to the
+ * previously installed handler (which shows the red box or terminates the app).
+ *
+ * Usually enabled through the `captureGlobalErrors` config option, which
+ * uninstalls the handlers on `dispose()`.
+ *
+ * @param logger - The logger that receives the records
+ * @param opts - What to capture; `errorUtils` and `trackRejections` can be mocked in tests
+ * @returns A function restoring the previous handlers
+ *
+ * @example
+ * ```typescript
+ * const restore = captureGlobalErrors(getLogger('crash'), { rejectionLevel: 'fatal' });
+ * ```
+ */
+export function captureGlobalErrors(
+  logger: Pick<Logger, 'error' | 'fatal' | 'flush'>,
+  opts: CaptureGlobalErrorsOptions = {}
+): () => void {
+  const flushTimeoutMs = opts.flushTimeoutMs ?? 1000;
+  const restores: (() => void)[] = [];
+  let active = true;
+
+  // never throws and settles within the timeout, whatever the transports do
+  const flush = (): Promise<void> => new Promise(resolve => {
+    const timer = setTimeout(resolve, flushTimeoutMs);
+    let flushing: Promise<void>;
+    try {
+      flushing = logger.flush();
+    } catch (err) {
+      flushing = Promise.resolve();
+    }
+    flushing.catch(() => undefined).then(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+  const log = (level: 'error' | 'fatal', error: unknown, ctx: Record<string, unknown>): void => {
+    try {
+      logger[level](toError(error), ctx);
+    } catch (err) {
+      // a failing logger must not hide the original error
+      reportInternal('captureGlobalErrors could not log an error', err);
+    }
+  };
+
+  const errorUtils = opts.errorUtils ?? globals.ErrorUtils;
+  if (opts.errors !== false && errorUtils) {
+    const previous = errorUtils.getGlobalHandler();
+    // what the previous handler threw, rethrown from a timer and routed back here
+    let rethrown: unknown;
+    const handler: GlobalErrorHandler = (error, isFatal) => {
+      if (!active) return previous?.(error, isFatal);
+      if (rethrown !== undefined && error === rethrown) {
+        rethrown = undefined;
+        return previous?.(error, isFatal);
+      }
+      log(isFatal ? 'fatal' : 'error', error, { source: 'globalHandler', isFatal: !!isFatal });
+      void flush().then(() => {
+        try {
+          previous?.(error, isFatal);
+        } catch (err) {
+          // thrown inside the promise chain it would be an unhandled rejection;
+          // rethrow it as an uncaught error, as if the handler had run directly
+          rethrown = err;
+          setTimeout(() => {
+            throw err;
+          }, 0);
+        }
+      });
+    };
+    errorUtils.setGlobalHandler(handler);
+    restores.push(() => {
+      // only restore if nobody chained on top of us in the meantime
+      if (errorUtils.getGlobalHandler() === handler && previous) {
+        errorUtils.setGlobalHandler(previous);
+      }
+    });
+  }
+
+  if (opts.unhandledRejections !== false) {
+    const level = opts.rejectionLevel ?? 'error';
+    const remove = (opts.trackRejections ?? defaultTrackRejections)(reason => {
+      if (!active) return;
+      log(level, reason, { source: 'unhandledRejection' });
+      void flush();
+    });
+    if (remove) restores.push(remove);
+  }
+
+  return () => {
+    active = false;
+    for (const restore of restores.splice(0)) restore();
+  };
+}
@@ -1,12 +1,46 @@
 export * from './types';
 export * from './Logger';
 export * from './LogManager';
+export {
+  captureGlobalErrors,
+  CaptureGlobalErrorsOptions,
+  ErrorUtilsLike,
+  GlobalErrorHandler,
+  RejectionTracker
+} from './globalErrors';
 // utils
-export { makeRedactor } from './utils/redactor';
+export { makeRedactor, RedactorOptions } from './utils/redactor';
+export { PathAction } from './utils/redactionPaths';
+export { BUILTIN_DETECTORS, ValueDetector, DetectorName, ReplacementStyle } from './utils/detectors';
 export { shouldSample } from './utils/sampler';
-export { makeRateLimiter } from './utils/rateLimiter';
+export { makeRateLimiter, makeTokenBucketLimiter, fingerprint, RateLimitOptions, RateLimiter } from './utils/rateLimiter';
+export { makeDeduper, DedupeOptions, Deduper } from './utils/dedupe';
+export { OverflowPolicy } from './utils/queue';
+export { CircuitBreakerOptions, TransportErrorInfo } from './utils/transportLane';
+export { LoggerStats, RecordCounters, TransportStats, TransportDeliveryStats } from './utils/stats';
+export { setDebugHandler, DebugHandler } from './utils/debug';
+export { serializeError, isError } from './utils/errorSerializer';
+export { makeSerializer, normalizeRecord } from './utils/serializer';
+export { matchNamespace } from './utils/namespace';
 // transports
-export { ConsoleTransport } from './transports/ConsoleTransport';
-export { FileTransport, FileTransportOptions } from './transports/FileTransport';
+export { ConsoleTransport, makeConsoleTransport, ConsoleTransportOptions } from './transports/ConsoleTransport';
+export { FileTransport, FileTransportOptions, FileTransportInstance, LogFileInfo } from './transports/FileTransport';
 export { SentryTransport } from './transports/SentryTransport';
-export { HttpTransport, HttpTransportOptions } from './transports/HttpTransport';
\ No newline at end of file
+export { HttpTransport, HttpTransportOptions, HttpRetryOptions, OutboxStorage } from './transports/HttpTransport';
+export { OtlpHttpTransport, OtlpHttpTransportOptions, toOtlpLogs } from './transports/OtlpHttpTransport';
+export { FilteredTransport, FilteredTransportOptions } from './transports/FilteredTransport';
+// log files
+export { exportLogs, ExportLogsOptions, ExportManifest, ExportResult } from './files/exportLogs';
+export { queryLogs, QueryLogsOptions, LogQuery } from './files/queryLogs';
+export { decryptLogFile, FileEncryptionOptions } from './files/encryption';
+export { VERSION } from './version';
+// storage adapters
+export { RNFSStorage } from './storage/RNFSStorage';
+export { ExpoFileSystemStorage } from './storage/ExpoFileSystemStorage';
+export { MemoryStorage, MemoryFile } from './storage/MemoryStorage';
+// formatters
+export { JsonFormatter, JsonFormatterOptions } from './formatters/JsonFormatter';
+export { LogfmtFormatter } from './formatters/LogfmtFormatter';
+export { PrettyFormatter, PrettyFormatterOptions } from './formatters/PrettyFormatter';
+export { EcsFormatter, EcsFormatterOptions } from './formatters/EcsFormatter';
+export { GelfFormatter, GelfFormatterOptions } from './formatters/GelfFormatter';
\ No newline at end of file
@@ -0,0 +1,11 @@
+/**
+ * Node.js-only entry point, kept out of the main entry so React Native bundlers
+ * never see `require('fs')`, and loadable in a plain Node process without the
+ * React Native peers, e.g. to decrypt bundles sent by users:
+ *
+ * ```typescript
+ * import { NodeFsStorage, decryptLogFile } from 'rn-structured-logger/node';
+ * ```
+ */
+export { NodeFsStorage } from './storage/NodeFsStorage';
+export { decryptLogFile, FileEncryptionOptions } from './files/encryption';
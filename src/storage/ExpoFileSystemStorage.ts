@@ -0,0 +1,101 @@
+import { LogFileStat, LogStorage, LogStorageEntry } from '../types';
+import { fromBase64, toBase64 } from '../utils/base64';
+import { decodeUtf8Range } from '../utils/utf8';
+
+/** The parts of the `expo-file-system` legacy API this adapter uses */
+interface ExpoFileSystemModule {
+  cacheDirectory: string | null;
+  getInfoAsync(
+    path: string,
+    options?: { size?: boolean }
+  ): Promise<{ exists: boolean; isDirectory?: boolean; size?: number; modificationTime?: number }>;
+  readAsStringAsync(path: string, options?: { encoding?: string; length?: number; position?: number }): Promise<string>;
+  writeAsStringAsync(path: string, contents: string, options?: { encoding?: string }): Promise<void>;
+  moveAsync(options: { from: string; to: string }): Promise<void>;
+  readDirectoryAsync(path: string): Promise<string[]>;
+  deleteAsync(path: string, options?: { idempotent?: boolean }): Promise<void>;
+}
+
+/**
+ * Creates a storage adapter backed by `expo-file-system`, which works in Expo Go.
+ * Files go to `FileSystem.cacheDirectory` by default. SDK 54 and later moved
+ * the API used here to `expo-file-system/legacy`, which is tried first.
+ *
+ * expo-file-system cannot append to files, so `append` and `appendBytes` read
+ * the whole file and write it back: every batch costs time proportional to the
+ * file size, and filling a file is quadratic in its size. Keep `maxBytes` on
+ * the FileTransport modest, like the default 512 KB.  Ranged reads go through
+ * base64, which expo-file-system supports natively.
+ * @returns A LogStorage for Expo apps
+ */
+export function ExpoFileSystemStorage(): LogStorage {
+  // loaded lazily: expo-file-system is an optional peer dependency, and Metro
+  // treats a require inside try/catch as optional, so apps without it still bundle
+  let FileSystem: ExpoFileSystemModule;
+  try {
+    FileSystem = require('expo-file-system/legacy');
+  } catch (err) {
+    try {
+      FileSystem = require('expo-file-system');
+    } catch (err) {
+      throw new Error('ExpoFileSystemStorage needs the expo-file-system package');
+    }
+  }
+  const utf8 = { encoding: 'utf8' };
+  const base64 = { encoding: 'base64' };
+  const directory = String(FileSystem.cacheDirectory ?? '').replace(/\/$/, '');
+
+  async function stat(path: string): Promise<LogFileStat | null> {
+    const info = await FileSystem.getInfoAsync(path, { size: true });
+    if (!info.exists || info.isDirectory) return null;
+    return {
+      size: Number(info.size ?? 0),
+      // expo reports seconds
+      mtime: info.modificationTime !== undefined ? info.modificationTime * 1000 : undefined
+    };
+  }
+
+  return {
+    directory,
+    stat,
+    async append(path: string, data: string): Promise<void> {
+      const existing = (await stat(path)) ? await FileSystem.readAsStringAsync(path, utf8) : '';
+      await FileSystem.writeAsStringAsync(path, existing + data, utf8);
+    },
+    async move(from: string, to: string): Promise<void> {
+      await FileSystem.moveAsync({ from, to });
+    },
+    async read(path: string, length?: number, position?: number): Promise<string> {
+      if (length === undefined) return FileSystem.readAsStringAsync(path, utf8);
+      // expo only supports ranged reads in base64
+      const data = await FileSystem.readAsStringAsync(path, { ...base64, length, position: position ?? 0 });
+      return decodeUtf8Range(fromBase64(data));
+    },
+    async list(dir: string): Promise<LogStorageEntry[]> {
+      const names = await FileSystem.readDirectoryAsync(dir);
+      const entries: LogStorageEntry[] = [];
+      for (const name of names) {
+        const path = `${dir}/${name}`;
+        const info = await stat(path);
+        if (info) entries.push({ name, path, size: info.size });
+      }
+      return entries;
+    },
+    async delete(path: string): Promise<void> {
+      await FileSystem.deleteAsync(path, { idempotent: true });
+    },
+    async appendBytes(path: string, data: Uint8Array): Promise<void> {
+      const existing = (await stat(path)) ? fromBase64(await FileSystem.readAsStringAsync(path, base64)) : new Uint8Array(0);
+      const joined = new Uint8Array(existing.length + data.length);
+      joined.set(existing);
+      joined.set(data, existing.length);
+      await FileSystem.writeAsStringAsync(path, toBase64(joined), base64);
+    },
+    async readBytes(path: string): Promise<Uint8Array> {
+      return fromBase64(await FileSystem.readAsStringAsync(path, base64));
+    },
+    async writeBytes(path: string, data: Uint8Array): Promise<void> {
+      await FileSystem.writeAsStringAsync(path, toBase64(data), base64);
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { strFromU8, strToU8 } from 'fflate';
+import { LogFileStat, LogStorage, LogStorageEntry } from '../types';
+import { byteLength } from '../utils/serializer';
+import { decodeUtf8Range } from '../utils/utf8';
+
+/** A file kept by `MemoryStorage`: text from `append`, bytes from `appendBytes` and `writeBytes` */
+export interface MemoryFile {
+  data: string | Uint8Array;
+  mtime: number;
+}
+
+/**
+ * Creates an in-memory storage adapter. Useful for tests, the web, and as a
+ * fallback when no file system module is available. Contents are lost when the
+ * app restarts.
+ * @returns A LogStorage keeping files in a Map
+ */
+export function MemoryStorage(): LogStorage & { files: Map<string, MemoryFile> } {
+  const files = new Map<string, MemoryFile>();
+
+  function text(file: MemoryFile): string {
+    return typeof file.data === 'string' ? file.data : strFromU8(file.data);
+  }
+
+  function size(file: MemoryFile): number {
+    return typeof file.data === 'string' ? byteLength(file.data) : file.data.length;
+  }
+
+  function get(path: string): MemoryFile {
+    const file = files.get(path);
+    if (!file) throw new Error(`ENOENT: ${path}`);
+    return file;
+  }
+
+  return {
+    directory: '/memory',
+    files,
+    async stat(path: string): Promise<LogFileStat | null> {
+      const file = files.get(path);
+      return file ? { size: size(file), mtime: file.mtime } : null;
+    },
+    async append(path: string, data: string): Promise<void> {
+      const file = files.get(path);
+      files.set(path, { data: (file ? text(file) : '') + data, mtime: Date.now() });
+    },
+    async move(from: string, to: string): Promise<void> {
+      const file = get(from);
+      files.delete(from);
+      files.set(to, file);
+    },
+    async read(path: string, length?: number, position?: number): Promise<string> {
+      const file = get(path);
+      if (length === undefined) return text(file);
+      const bytes = typeof file.data === 'string' ? strToU8(file.data) : file.data;
+      const start = position ?? 0;
+      return decodeUtf8Range(bytes.subarray(start, start + length));
+    },
+    async list(dir: string): Promise<LogStorageEntry[]> {
+      const prefix = `${dir}/`;
+      const entries: LogStorageEntry[] = [];
+      for (const [path, file] of files) {
+        const name = path.slice(prefix.length);
+        if (path.startsWith(prefix) && !name.includes('/')) {
+          entries.push({ name, path, size: size(file) });
+        }
+      }
+      return entries;
+    },
+    async delete(path: string): Promise<void> {
+      files.delete(path);
+    },
+    async appendBytes(path: string, data: Uint8Array): Promise<void> {
+      const file = files.get(path);
+      const existing = !file ? new Uint8Array(0) : typeof file.data === 'string' ? strToU8(file.data) : file.data;
+      const joined = new Uint8Array(existing.length + data.length);
+      joined.set(existing);
+      joined.set(data, existing.length);
+      files.set(path, { data: joined, mtime: Date.now() });
+    },
+    async readBytes(path: string): Promise<Uint8Array> {
+      const file = get(path);
+      return typeof file.data === 'string' ? strToU8(file.data) : file.data;
+    },
+    async writeBytes(path: string, data: Uint8Array): Promise<void> {
+      files.set(path, { data: data.slice(), mtime: Date.now() });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import { LogFileStat, LogStorage, LogStorageEntry } from '../types';
+import { decodeUtf8Range } from '../utils/utf8';
+
+/**
+ * Creates a storage adapter backed by Node's `fs` module, for tests, scripts and
+ * tooling that read or write log files outside the app.
+ * @param directory - Default directory for log files. Defaults to the OS temp directory.
+ * @returns A LogStorage for Node.js
+ */
+export function NodeFsStorage(directory?: string): LogStorage {
+  const fs = require('fs').promises;
+
+  async function stat(path: string): Promise<LogFileStat | null> {
+    try {
+      const info = await fs.stat(path);
+      return info.isFile() ? { size: info.size, mtime: info.mtimeMs } : null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  return {
+    directory: directory ?? require('os').tmpdir(),
+    stat,
+    async append(path: string, data: string): Promise<void> {
+      await fs.appendFile(path, data, 'utf8');
+    },
+    async move(from: string, to: string): Promise<void> {
+      await fs.rename(from, to);
+    },
+    async read(path: string, length?: number, position?: number): Promise<string> {
+      if (length === undefined) return fs.readFile(path, 'utf8');
+      const handle = await fs.open(path, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, position ?? 0);
+        return decodeUtf8Range(buffer.subarray(0, bytesRead));
+      } finally {
+        await handle.close();
+      }
+    },
+    async list(dir: string): Promise<LogStorageEntry[]> {
+      const entries: LogStorageEntry[] = [];
+      for (const name of (await fs.readdir(dir)) as string[]) {
+        const path = `${dir}/${name}`;
+        const info = await stat(path);
+        if (info) entries.push({ name, path, size: info.size });
+      }
+      return entries;
+    },
+    async delete(path: string): Promise<void> {
+      await fs.rm(path, { force: true });
+    },
+    async appendBytes(path: string, data: Uint8Array): Promise<void> {
+      await fs.appendFile(path, data);
+    },
+    async readBytes(path: string): Promise<Uint8Array> {
+      return new Uint8Array(await fs.readFile(path));
+    },
+    async writeBytes(path: string, data: Uint8Array): Promise<void> {
+      await fs.writeFile(path, data);
+    }
+  };
+}
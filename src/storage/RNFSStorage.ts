@@ -0,0 +1,84 @@
+import { LogFileStat, LogStorage, LogStorageEntry } from '../types';
+import { fromBase64, toBase64 } from '../utils/base64';
+import { decodeUtf8Range } from '../utils/utf8';
+
+/** The parts of `react-native-fs` this adapter uses */
+interface RNFSModule {
+  CachesDirectoryPath: string;
+  stat(path: string): Promise<{ size: number | string; mtime?: Date | string | number; isFile(): boolean }>;
+  exists(path: string): Promise<boolean>;
+  appendFile(path: string, contents: string, encoding: string): Promise<void>;
+  writeFile(path: string, contents: string, encoding: string): Promise<void>;
+  moveFile(from: string, to: string): Promise<void>;
+  readFile(path: string, encoding: string): Promise<string>;
+  read(path: string, length: number, position: number, encoding: string): Promise<string>;
+  readDir(dir: string): Promise<{ name: string; path: string; size: number | string; isFile?(): boolean }[]>;
+  unlink(path: string): Promise<void>;
+}
+
+/**
+ * Creates a storage adapter backed by `react-native-fs`. The module is loaded on
+ * first use, so it is only required when this adapter is actually used.
+ * Files go to `RNFS.CachesDirectoryPath` by default.
+ * @returns A LogStorage for bare React Native apps
+ */
+export function RNFSStorage(): LogStorage {
+  // loaded lazily: react-native-fs is an optional peer dependency, and Metro
+  // treats a require inside try/catch as optional, so apps without it still bundle
+  let fs: RNFSModule;
+  try {
+    const RNFS = require('react-native-fs');
+    fs = RNFS.default ?? RNFS;
+  } catch (err) {
+    throw new Error('RNFSStorage needs the react-native-fs package');
+  }
+  return {
+    directory: fs.CachesDirectoryPath,
+    async stat(path: string): Promise<LogFileStat | null> {
+      try {
+        const stat = await fs.stat(path);
+        if (!stat.isFile()) return null;
+        return {
+          size: Number(stat.size),
+          mtime: stat.mtime !== undefined ? new Date(stat.mtime).getTime() : undefined
+        };
+      } catch (err) {
+        return null;
+      }
+    },
+    async append(path: string, data: string): Promise<void> {
+      await fs.appendFile(path, data, 'utf8');
+    },
+    async move(from: string, to: string): Promise<void> {
+      await fs.moveFile(from, to);
+    },
+    async read(path: string, length?: number, position?: number): Promise<string> {
+      if (length === undefined) return fs.readFile(path, 'utf8');
+      // RNFS decodes utf8 ranges as is; read bytes so split characters are dropped
+      return decodeUtf8Range(fromBase64(await fs.read(path, length, position ?? 0, 'base64')));
+    },
+    async list(dir: string): Promise<LogStorageEntry[]> {
+      const items = await fs.readDir(dir);
+      return items
+        .filter(item => !item.isFile || item.isFile())
+        .map(item => ({ name: item.name, path: item.path, size: Number(item.size) }));
+    },
+    async delete(path: string): Promise<void> {
+      try {
+        await fs.unlink(path);
+      } catch (err) {
+        // RNFS has no error code for a missing file; anything else is a real failure
+        if (await fs.exists(path)) throw err;
+      }
+    },
+    async appendBytes(path: string, data: Uint8Array): Promise<void> {
+      await fs.appendFile(path, toBase64(data), 'base64');
+    },
+    async readBytes(path: string): Promise<Uint8Array> {
+      return fromBase64(await fs.readFile(path, 'base64'));
+    },
+    async writeBytes(path: string, data: Uint8Array): Promise<void> {
+      await fs.writeFile(path, toBase64(data), 'base64');
+    }
+  };
+}
@@ -1,4 +1,5 @@
-import { Transport, LogRecord } from '../types';
+import { Transport, LogRecord, Formatter } from '../types';
+import { normalizeRecord } from '../utils/serializer';
 
 /**
  * Console Transport - Writes structured logs to the JavaScript console.
@@ -9,6 +10,7 @@ import { Transport, LogRecord } from '../types';
  * - Level: Uppercase severity level (TRACE, DEBUG, INFO, WARN, ERROR, FATAL)
  * - Message: The log message
  * - Context: Additional structured data
+ * - Error: The stack trace of `rec.err`, when the record carries one
  *
  * Uses appropriate console methods based on severity:
  * - `console.debug()` for trace/debug levels
@@ -30,22 +32,66 @@ import { Transport, LogRecord } from '../types';
  * // [2024-01-15T10:30:45.124Z] auth:login DEBUG: Attempting login { username: "user@example.com" }
  * ```
  */
-export const ConsoleTransport: Transport = {
-  name: 'console',
-  write(batch: LogRecord[]): void {
-    for (const rec of batch) {
-      const timestamp = new Date(rec.ts).toISOString();
-      const prefix = `[${timestamp}] ${rec.ns ?? '-'} ${rec.level.toUpperCase()}:`;
-      const payload = rec.ctx ? { ...rec.ctx, correlationId: rec.correlationId, device: rec.device } : { correlationId: rec.correlationId, device: rec.device };
-      if (rec.level === 'error' || rec.level === 'fatal') {
-        console.error(prefix, rec.msg, payload);
-      } else if (rec.level === 'warn') {
-        console.warn(prefix, rec.msg, payload);
-      } else if (rec.level === 'info') {
-        console.info(prefix, rec.msg, payload);
-      } else {
-        console.debug(prefix, rec.msg, payload);
+export const ConsoleTransport: Transport = makeConsoleTransport();
+
+/**
+ * Options for a console transport created with `makeConsoleTransport`.
+ */
+export interface ConsoleTransportOptions {
+  /**
+   * Formatter used to print each record as a single string. Without it, records
+   * are printed as a prefix, the message and a context object, which keeps them
+   * inspectable in debuggers.
+   */
+  formatter?: Formatter;
+}
+
+/**
+ * Creates a console transport. `ConsoleTransport` is the instance created with
+ * the default options; use this factory to print through a formatter instead.
+ * @param opts - Console output options
+ * @returns A Transport writing to the console
+ *
+ * @example
+ * ```typescript
+ * initLogger({
+ *   level: 'debug',
+ *   transports: [makeConsoleTransport({ formatter: LogfmtFormatter() })]
+ * });
+ * ```
+ */
+export function makeConsoleTransport(opts: ConsoleTransportOptions = {}): Transport {
+  const { formatter } = opts;
+  return {
+    name: 'console',
+    write(batch: LogRecord[]): void {
+      for (const raw of batch) {
+        const args = formatter ? [formatter.format(raw)] : toArgs(normalizeRecord(raw));
+        print(raw, args);
       }
     }
+  };
+}
+
+function toArgs(rec: LogRecord): unknown[] {
+  const timestamp = new Date(rec.ts).toISOString();
+  const prefix = `[${timestamp}] ${rec.ns ?? '-'} ${rec.level.toUpperCase()}:`;
+  const payload = rec.ctx ? { ...rec.ctx, correlationId: rec.correlationId, device: rec.device } : { correlationId: rec.correlationId, device: rec.device };
+  const args: unknown[] = [prefix, rec.msg, payload];
+  if (rec.err) {
+    args.push(rec.err.stack ?? `${rec.err.name}: ${rec.err.message}`);
+  }
+  return args;
+}
+
+function print(rec: LogRecord, args: unknown[]): void {
+  if (rec.level === 'error' || rec.level === 'fatal') {
+    console.error(...args);
+  } else if (rec.level === 'warn') {
+    console.warn(...args);
+  } else if (rec.level === 'info') {
+    console.info(...args);
+  } else {
+    console.debug(...args);
   }
-};
\ No newline at end of file
+}
\ No newline at end of file
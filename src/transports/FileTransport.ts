@@ -1,50 +1,315 @@
-import { Transport, LogRecord } from '../types';
-import RNFS from 'react-native-fs';
+import { strToU8 } from 'fflate';
+import { Transport, LogRecord, LogStorage, LogStorageEntry, Serializer, Formatter } from '../types';
+import { JsonFormatter } from '../formatters/JsonFormatter';
+import { RNFSStorage } from '../storage/RNFSStorage';
+import { ENCRYPTED_MAGIC, FileEncryptionOptions, decryptLogFile, encryptFrame, encryptLogFile, encryptedHeader, isEncrypted, resolveKey } from '../files/encryption';
+import { COMPRESSED_EXTENSIONS, CompressionFormat, compress, compressionOf } from '../files/compression';
+import { reportInternal } from '../utils/debug';
+import { TransportDeliveryStats } from '../utils/stats';
 
 export interface FileTransportOptions {
-  /** File name relative to cache directory. Defaults to 'logs.txt'. */
+  /** File name relative to `directory`. Defaults to 'app.log'. */
   fileName?: string;
+  /** Storage the files are written to. Defaults to `RNFSStorage()` (react-native-fs). */
+  storage?: LogStorage;
+  /** Directory of the log files. Defaults to the storage's directory (the cache directory for RNFS and Expo). */
+  directory?: string;
   /** Maximum log file size in bytes before rotation. Defaults to 512 KiB. */
   maxBytes?: number;
+  /** Also rotate when the active file was last written in an earlier day or hour (local time). */
+  rotateEvery?: 'daily' | 'hourly';
+  /** Maximum number of rotated files kept; the oldest are deleted first. */
+  maxFiles?: number;
+  /** Maximum size of the active and rotated files together; the oldest rotated files are deleted first. */
+  maxTotalBytes?: number;
+  /** Rotated files older than this many days are deleted. */
+  maxAgeDays?: number;
+  /** Serializer used to turn each record into a line. Defaults to `makeSerializer()`. */
+  serializer?: Serializer;
+  /** Formatter used for each line. Defaults to `JsonFormatter` with `serializer`. */
+  formatter?: Formatter;
+  /**
+   * Encrypts every batch with a key from the given provider. The storage must
+   * support `appendBytes`; all built-in adapters do.
+   */
+  encryption?: FileEncryptionOptions;
+  /**
+   * Compresses rotated files with gzip (`.gz`) or raw deflate (`.deflate`) in
+   * pure JS. The storage must support `readBytes` and `writeBytes`.
+   */
+  compress?: CompressionFormat;
 }
 
 /**
- * Creates a transport that writes logs to a file on disk using react-native-fs.
- * Each batch is appended as newline‑separated JSON.  When the file exceeds
- * `maxBytes` the current log file is moved to a rotated file with a timestamp
- * suffix and a new file is created.  Rotated files are not automatically
- * deleted; your app is responsible for cleaning up old logs.
+ * Describes one log file written by a FileTransport.
  */
-export function FileTransport(opts: FileTransportOptions = {}): Transport {
+export interface LogFileInfo {
+  /** Absolute path of the file */
+  path: string;
+  /** File name, e.g. `app.log` or `app.log.1700000000000` */
+  name: string;
+  /** Size in bytes */
+  size: number;
+  /** True for the file currently written to */
+  active: boolean;
+  /** Timestamp of the first record, when the first line is a JSON record */
+  startTs?: number;
+  /** Time of the last write: the rotation time for rotated files, the modification time otherwise */
+  endTs?: number;
+  /** True for files written with `encryption` */
+  encrypted?: boolean;
+  /** Compression of a rotated file written with `compress` */
+  compressed?: CompressionFormat;
+}
+
+/**
+ * A FileTransport, with access to the files it manages.
+ */
+export interface FileTransportInstance extends Transport {
+  /** Storage the files are written to; used by `exportLogs` to read them back */
+  storage: LogStorage;
+  /** The `encryption` option, used to decrypt the files when reading them back */
+  encryption?: FileEncryptionOptions;
+  /**
+   * Lists the rotated files (oldest first) followed by the active file.
+   * @returns The files with their sizes and time ranges
+   */
+  listLogFiles(): Promise<LogFileInfo[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// bytes read from the start of a file to find the first record's timestamp
+const HEAD_BYTES = 4096;
+// `<rotation time>` or `<rotation time>.gz`/`.deflate` after the file name
+const ROTATED_SUFFIX = /^(\d+)(?:\.gz|\.deflate)?$/;
+
+/**
+ * Creates a transport that writes logs to a file through a `LogStorage`
+ * adapter: react-native-fs by default, or `ExpoFileSystemStorage()`,
+ * `NodeFsStorage()` (from `rn-structured-logger/node`) or `MemoryStorage()`
+ * where react-native-fs is unavailable.
+ * Each batch is appended as newline‑separated JSON produced by the configured
+ * serializer, so circular or exotic values in `ctx` cannot lose the batch.
+ * Pass a `formatter` to write another format, e.g. `PrettyFormatter()`.
+ *
+ * When the file exceeds `maxBytes`, or when `rotateEvery` is set and the file
+ * was last written in an earlier day/hour, it is moved to a rotated file with
+ * a timestamp suffix (`app.log.1700000000000`) and a new file is created.
+ * After each rotation, and on the first write, rotated files are pruned
+ * according to `maxAgeDays`, `maxFiles` and `maxTotalBytes`. Without these
+ * options rotated files are kept forever.
+ *
+ * With `encryption`, a file starts with an `RNSLENC1` header and each batch is
+ * appended as one length-prefixed XChaCha20-Poly1305 frame (see
+ * `decryptLogFile`). `exportLogs` and `queryLogs` decrypt transparently.
+ * Turning encryption on or off rotates the active file first, so a file is
+ * never part plain text and part encrypted.
+ *
+ * With `compress`, each rotated file is replaced by a compressed copy
+ * (`app.log.1700000000000.gz`) right after rotation; encrypted files are
+ * compressed before they are encrypted again. Retention counts the compressed
+ * size, and `exportLogs` and `queryLogs` decompress transparently.
+ */
+export function FileTransport(opts: FileTransportOptions = {}): FileTransportInstance {
   const fileName = opts.fileName ?? 'app.log';
   const maxBytes = opts.maxBytes ?? 512 * 1024;
-  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  const formatter = opts.formatter ?? JsonFormatter({ serializer: opts.serializer });
+  const storage = opts.storage ?? RNFSStorage();
+  const dir = opts.directory ?? storage.directory;
+  const path = `${dir}/${fileName}`;
+  const { encryption } = opts;
+  if (encryption && !storage.appendBytes) {
+    throw new Error('FileTransport encryption requires a storage adapter with appendBytes');
+  }
+  if (opts.compress && !(storage.readBytes && storage.writeBytes)) {
+    throw new Error('FileTransport compression requires a storage adapter with readBytes and writeBytes');
+  }
+  // rotated files are compressed and pruned on the first write and after each rotation
+  let pruned = false;
+  // records in batches that could not be written
+  let failed = 0;
+  let lastRotation = 0;
+  // whether the active file is encrypted; null when it is empty or missing, undefined until checked
+  let activeEncrypted: boolean | null | undefined;
 
   async function rotateIfNeeded(): Promise<void> {
+    const stat = await storage.stat(path);
+    if (!stat) {
+      activeEncrypted = null;
+      return;
+    }
+    if (activeEncrypted === undefined) {
+      activeEncrypted = stat.size > 0 ? (await storage.read(path, ENCRYPTED_MAGIC.length, 0)) === ENCRYPTED_MAGIC : null;
+    }
+    const now = Date.now();
+    const expired = opts.rotateEvery !== undefined && stat.mtime !== undefined &&
+      periodOf(stat.mtime, opts.rotateEvery) !== periodOf(now, opts.rotateEvery);
+    const modeChanged = activeEncrypted !== null && activeEncrypted !== !!encryption;
+    if (stat.size > maxBytes || (expired && stat.size > 0) || modeChanged) {
+      try {
+        // unique suffix even when rotating twice within a millisecond
+        lastRotation = Math.max(now, lastRotation + 1);
+        await storage.move(path, `${path}.${lastRotation}`);
+        pruned = false;
+        activeEncrypted = null;
+      } catch (err) {
+        // keep appending to the current file; rotation is retried on the next write
+        reportInternal('FileTransport could not rotate the log file', err);
+      }
+    }
+  }
+
+  async function append(lines: string): Promise<void> {
+    if (!encryption) {
+      if (activeEncrypted) throw new Error('the active file is encrypted and could not be rotated');
+      await storage.append(path, lines);
+      activeEncrypted = false;
+      return;
+    }
+    if (activeEncrypted === false) throw new Error('the active file is not encrypted and could not be rotated');
+    const key = await resolveKey(encryption);
+    if (activeEncrypted !== true) {
+      await storage.appendBytes!(path, encryptedHeader());
+      activeEncrypted = true;
+    }
+    await storage.appendBytes!(path, encryptFrame(strToU8(lines), key, encryption.randomBytes));
+  }
+
+  async function listRotated(): Promise<(LogStorageEntry & { ts: number; compressed?: CompressionFormat })[]> {
+    const prefix = `${fileName}.`;
+    const byTs = new Map<number, LogStorageEntry & { ts: number; compressed?: CompressionFormat }>();
+    for (const item of await storage.list(dir)) {
+      const match = ROTATED_SUFFIX.exec(item.name.slice(prefix.length));
+      if (!item.name.startsWith(prefix) || !match) continue;
+      const ts = Number(match[1]);
+      // a compressed copy next to its original was interrupted; the original is complete
+      if (byTs.has(ts) && !byTs.get(ts)!.compressed) continue;
+      byTs.set(ts, { ...item, ts, compressed: compressionOf(item.name) });
+    }
+    return Array.from(byTs.values()).sort((a, b) => a.ts - b.ts);
+  }
+
+  async function compressRotated(): Promise<void> {
+    const format = opts.compress;
+    if (!format) return;
     try {
-      const stat = await RNFS.stat(path);
-      if (stat.isFile() && stat.size > maxBytes) {
-        const rotatedPath = `${path}.${Date.now()}`;
-        await RNFS.moveFile(path, rotatedPath);
+      for (const file of await listRotated()) {
+        if (file.compressed) continue;
+        let data = await storage.readBytes!(file.path);
+        const key = isEncrypted(data) && encryption ? await resolveKey(encryption) : undefined;
+        if (isEncrypted(data) && !key) continue;
+        data = compress(key ? decryptLogFile(data, key) : data, format);
+        if (key) data = encryptLogFile(data, key, encryption!.randomBytes);
+        await storage.writeBytes!(`${file.path}${COMPRESSED_EXTENSIONS[format]}`, data);
+        await storage.delete(file.path);
       }
     } catch (err) {
-      // ignore if file does not exist
+      // compression is best effort; uncompressed files are retried after the next rotation
+      reportInternal('FileTransport could not compress rotated files', err);
     }
   }
 
-  return {
-    name: 'file',
-    async write(batch: LogRecord[]): Promise<void> {
+  async function prune(): Promise<void> {
+    if (opts.maxFiles === undefined && opts.maxTotalBytes === undefined && opts.maxAgeDays === undefined) {
+      return;
+    }
+    try {
+      const rotated = await listRotated();
+      const doomed = new Set<string>();
+      if (opts.maxAgeDays !== undefined) {
+        const cutoff = Date.now() - opts.maxAgeDays * DAY_MS;
+        rotated.filter(file => file.ts < cutoff).forEach(file => doomed.add(file.path));
+      }
+      let kept = rotated.filter(file => !doomed.has(file.path));
+      if (opts.maxFiles !== undefined && kept.length > opts.maxFiles) {
+        kept.slice(0, kept.length - opts.maxFiles).forEach(file => doomed.add(file.path));
+        kept = kept.slice(kept.length - opts.maxFiles);
+      }
+      if (opts.maxTotalBytes !== undefined) {
+        let total = kept.reduce((sum, file) => sum + file.size, await activeSize());
+        while (kept.length > 0 && total > opts.maxTotalBytes) {
+          const oldest = kept.shift()!;
+          doomed.add(oldest.path);
+          total -= oldest.size;
+        }
+      }
+      for (const doomedPath of doomed) {
+        await storage.delete(doomedPath);
+      }
+    } catch (err) {
+      // retention is best effort; try again after the next rotation
+      reportInternal('FileTransport could not delete old log files', err);
+    }
+  }
+
+  async function activeSize(): Promise<number> {
+    return (await storage.stat(path))?.size ?? 0;
+  }
+
+  async function inspect(filePath: string): Promise<{ startTs?: number; encrypted?: boolean }> {
     try {
-      await rotateIfNeeded();
-      const lines = batch.map(rec => JSON.stringify(rec)).join('\n') + '\n';
-      await RNFS.appendFile(path, lines, 'utf8');
+      const head = await storage.read(filePath, HEAD_BYTES, 0);
+      if (head.startsWith(ENCRYPTED_MAGIC)) return { encrypted: true };
+      const ts = JSON.parse(head.split('\n')[0]).ts;
+      return typeof ts === 'number' ? { startTs: ts } : {};
     } catch (err) {
-      // silently ignore file write errors to avoid crashing the app
+      // non-JSON formatters or a first line longer than HEAD_BYTES
+      return {};
     }
-  },
+  }
+
+  return {
+    name: 'file',
+    storage,
+    encryption,
+    async write(batch: LogRecord[]): Promise<void> {
+      try {
+        await rotateIfNeeded();
+        if (!pruned) {
+          pruned = true;
+          await compressRotated();
+          await prune();
+        }
+        await append(batch.map(rec => formatter.format(rec)).join('\n') + '\n');
+      } catch (err) {
+        // never let file write errors crash the app; the logger's stats count them
+        failed += batch.length;
+        reportInternal('FileTransport could not write records', err);
+      }
+    },
+    stats(): TransportDeliveryStats {
+      return { failed };
+    },
     async flush(): Promise<void> {
       // nothing to flush; writes are immediate
+    },
+    async listLogFiles(): Promise<LogFileInfo[]> {
+      const files: LogFileInfo[] = [];
+      for (const file of await listRotated()) {
+        files.push({
+          path: file.path,
+          name: file.name,
+          size: file.size,
+          active: false,
+          ...(await inspect(file.path)),
+          endTs: file.ts,
+          ...(file.compressed && { compressed: file.compressed })
+        });
+      }
+      const stat = await storage.stat(path);
+      if (stat) {
+        files.push({ path, name: fileName, size: stat.size, active: true, ...(await inspect(path)), endTs: stat.mtime });
+      }
+      return files;
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Returns a key identifying the local day or hour a timestamp falls in.
+ */
+function periodOf(ts: number, every: 'daily' | 'hourly'): string {
+  const d = new Date(ts);
+  const day = `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+  return every === 'daily' ? day : `${day}T${d.getHours()}`;
+}
@@ -0,0 +1,65 @@
+import { Transport, LogRecord, LogLevel } from '../types';
+import { levelAtLeast } from '../utils/levels';
+import { matchNamespace } from '../utils/namespace';
+
+/**
+ * Options for restricting which records reach a wrapped transport.
+ */
+export interface FilteredTransportOptions {
+  /** Minimum level forwarded to the transport. */
+  level?: LogLevel;
+  /** Namespace globs (e.g. `api:*`); when set, only matching records are forwarded. */
+  include?: string[];
+  /** Namespace globs whose records are never forwarded. Checked after `include`. */
+  exclude?: string[];
+  /** Arbitrary predicate; return false to drop the record. */
+  filter?: (record: LogRecord) => boolean;
+}
+
+/**
+ * Wraps a transport so that it only receives records passing its own level
+ * threshold, namespace globs and predicate. Records are filtered per batch before
+ * `write` is called; if nothing passes, the wrapped transport is not called at all.
+ * `flush`, `dispose` and any other members of the wrapped transport are kept.
+ *
+ * @param transport - The transport to wrap
+ * @param opts - Level, namespace and predicate filters
+ * @returns A Transport that forwards matching records to `transport`
+ *
+ * @example
+ * ```typescript
+ * initLogger({
+ *   level: 'debug',
+ *   transports: [
+ *     ConsoleTransport,
+ *     FilteredTransport(FileTransport(), { level: 'info' }),
+ *     FilteredTransport(SentryTransport(), { level: 'error', exclude: ['analytics:*'] })
+ *   ]
+ * });
+ * ```
+ */
+export function FilteredTransport(transport: Transport, opts: FilteredTransportOptions): Transport {
+  const { level, include, exclude, filter } = opts;
+
+  function accepts(rec: LogRecord): boolean {
+    if (level && !levelAtLeast(rec.level, level)) return false;
+    if (include && !include.some(p => matchNamespace(p, rec.ns))) return false;
+    if (exclude && exclude.some(p => matchNamespace(p, rec.ns))) return false;
+    return filter ? filter(rec) : true;
+  }
+
+  const wrapped: Transport = {
+    // keep extras of the wrapped transport, e.g. `listLogFiles` of a FileTransport
+    ...transport,
+    name: transport.name,
+    write(batch: LogRecord[]): void | Promise<void> {
+      const items = batch.filter(accepts);
+      if (items.length === 0) return;
+      return transport.write(items);
+    }
+  };
+  if (transport.flush) wrapped.flush = () => transport.flush!();
+  if (transport.dispose) wrapped.dispose = () => transport.dispose!();
+  if (transport.stats) wrapped.stats = () => transport.stats!();
+  return wrapped;
+}
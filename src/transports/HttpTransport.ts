@@ -1,4 +1,28 @@
-import { Transport, LogRecord } from '../types';
+import { Transport, LogRecord, Serializer, Formatter } from '../types';
+import { JsonFormatter } from '../formatters/JsonFormatter';
+import { reportInternal } from '../utils/debug';
+import { TransportDeliveryStats } from '../utils/stats';
+
+/**
+ * Minimal key/value storage used to persist the HTTP outbox across app restarts.
+ * `@react-native-async-storage/async-storage` satisfies this interface as-is.
+ */
+export interface OutboxStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Retry policy for failed deliveries.
+ */
+export interface HttpRetryOptions {
+  /** Delay before the first retry in milliseconds. Defaults to 1000. */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay in milliseconds. Defaults to 5 minutes. */
+  maxDelayMs?: number;
+  /** Attempts after which a batch is dropped. Unlimited by default. */
+  maxAttempts?: number;
+}
 
 /**
  * Options for configuring the HttpTransport.
@@ -8,30 +32,255 @@ export interface HttpTransportOptions {
   url: string;
   /** Additional headers sent with every request (e.g. auth tokens) */
   headers?: Record<string, string>;
+  /** Serializer used for each record in the posted array. Defaults to `makeSerializer()`. */
+  serializer?: Serializer;
+  /**
+   * Formatter for the request body; its `contentType` becomes the `Content-Type`
+   * header. Defaults to `JsonFormatter` with `serializer` (a JSON array).
+   */
+  formatter?: Formatter;
+  /**
+   * Encodes a whole batch into the request body, replacing the formatter.
+   * Used by protocol-specific transports such as `OtlpHttpTransport`.
+   */
+  encode?: (batch: LogRecord[]) => string;
+  /**
+   * Time in milliseconds after which a request is aborted and retried like a
+   * network error, so one hung request cannot stall delivery.  Defaults to 30 seconds.
+   */
+  requestTimeoutMs?: number;
+  /** Backoff policy for retryable failures (network errors, timeouts, 408, 429 and 5xx). */
+  retry?: HttpRetryOptions;
+  /** Storage used to persist undelivered batches. Without it the outbox lives in memory only. */
+  storage?: OutboxStorage;
+  /** Key under which the outbox is persisted. Defaults to `rn-structured-logger:http-outbox`. */
+  storageKey?: string;
+  /** Maximum undelivered batches kept; the oldest is dropped beyond this. Defaults to 50. */
+  maxQueuedBatches?: number;
+}
+
+interface OutboxEntry {
+  body: string;
+  attempts: number;
+  // absent in outboxes persisted by older versions
+  records?: number;
 }
 
+// the subset of the fetch Response used here; keeps the transport independent of DOM typings
+interface HttpResponse {
+  status?: number;
+  headers?: { get(name: string): string | null };
+}
+
+type SendResult = { kind: 'ok' } | { kind: 'drop' } | { kind: 'retry'; retryAfterMs?: number };
+
 /**
  * Creates a transport that sends logs to a remote HTTP endpoint. Batches of
- * records are converted to JSON and sent via POST. If the request fails, the
- * error is silently swallowed. For reliability you may want to implement
- * retry or offline persistence externally.
+ * records are converted to a JSON array with the configured serializer (or to
+ * the output of `formatter`) and sent via POST, oldest first.
+ *
+ * Every batch goes through an outbox: `write` resolves once the batch is in
+ * it (and persisted), and delivery runs in the background, so a slow server or
+ * a backlog never times out the write. `flush` waits for delivery. Network
+ * errors, timeouts, 408, 429 and 5xx responses keep the batch in the outbox
+ * and pause delivery with exponential backoff and jitter, honouring
+ * `Retry-After` when the server sends it. Other 4xx responses are not
+ * retryable and drop the batch. Delivery resumes on the next `write` or
+ * `flush` once the backoff has elapsed; no timers are kept alive. With a
+ * `storage` adapter the outbox survives app restarts. The outbox is bounded
+ * by `maxQueuedBatches` and drops the oldest batch when full.
+ * Delivery failures never propagate to the logger; they are retried, or
+ * reported through the debug channel when a batch is dropped. `stats()`
+ * counts the records delivered, given up on and evicted, and `getStats()`
+ * shows them for this transport.
+ *
  * @param opts - Configuration options including the target URL
  * @returns A Transport instance for HTTP logging
+ *
+ * @example
+ * ```typescript
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * HttpTransport({
+ *   url: 'https://logs.example.com/ingest',
+ *   storage: AsyncStorage,
+ *   retry: { baseDelayMs: 2000, maxDelayMs: 10 * 60_000 }
+ * });
+ * ```
  */
 export function HttpTransport(opts: HttpTransportOptions): Transport {
-  const { url, headers } = opts;
+  const { url, headers, storage } = opts;
+  const formatter = opts.formatter ?? JsonFormatter({ serializer: opts.serializer });
+  const contentType = opts.encode ? 'application/json' : formatter.contentType ?? 'text/plain';
+  const encode = opts.encode ?? ((batch: LogRecord[]) =>
+    formatter.formatBatch ? formatter.formatBatch(batch) : batch.map(rec => formatter.format(rec)).join('\n'));
+  const storageKey = opts.storageKey ?? 'rn-structured-logger:http-outbox';
+  const maxQueued = opts.maxQueuedBatches ?? 50;
+  const baseDelay = opts.retry?.baseDelayMs ?? 1000;
+  const maxDelay = opts.retry?.maxDelayMs ?? 5 * 60_000;
+  const maxAttempts = opts.retry?.maxAttempts ?? Infinity;
+  const requestTimeoutMs = opts.requestTimeoutMs ?? 30_000;
+
+  let outbox: OutboxEntry[] = [];
+  let loaded: Promise<void> | null = null;
+  let delivering: Promise<void> | null = null;
+  let nextAttemptAt = 0;
+  // records delivered, given up on, and evicted from a full outbox
+  const counts = { delivered: 0, failed: 0, dropped: 0 };
+
+  function load(): Promise<void> {
+    if (!loaded) {
+      loaded = (async () => {
+        if (!storage) return;
+        try {
+          const saved = await storage.getItem(storageKey);
+          const entries = saved ? (JSON.parse(saved) as OutboxEntry[]) : [];
+          outbox = [...entries, ...outbox];
+          trim();
+        } catch (err) {
+          // a corrupt or unreadable outbox is discarded
+          reportInternal('HttpTransport could not load the persisted outbox', err);
+        }
+      })();
+    }
+    return loaded;
+  }
+
+  function trim(): void {
+    if (outbox.length > maxQueued) {
+      for (const entry of outbox.splice(0, outbox.length - maxQueued)) counts.dropped += entry.records ?? 0;
+    }
+  }
+
+  async function persist(): Promise<void> {
+    if (!storage) return;
+    try {
+      await storage.setItem(storageKey, JSON.stringify(outbox));
+    } catch (err) {
+      // persistence is best effort; the in-memory outbox is still used
+      reportInternal('HttpTransport could not persist the outbox', err);
+    }
+  }
+
+  // fetch has no timeout of its own; abort where AbortController exists and stop waiting either way
+  function post(body: string): Promise<HttpResponse> {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+    return new Promise<HttpResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        controller?.abort();
+        reject(new Error(`HttpTransport request timed out after ${requestTimeoutMs} ms`));
+      }, requestTimeoutMs);
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': contentType, ...(headers ?? {}) },
+        body,
+        signal: controller?.signal
+      }).then(
+        res => { clearTimeout(timer); resolve(res); },
+        err => { clearTimeout(timer); reject(err); }
+      );
+    });
+  }
+
+  async function send(body: string): Promise<SendResult> {
+    let res: HttpResponse;
+    try {
+      res = await post(body);
+    } catch (err) {
+      reportInternal('HttpTransport request failed; will retry', err);
+      return { kind: 'retry' };
+    }
+    const status = res?.status;
+    if (typeof status !== 'number' || (status >= 200 && status < 400)) {
+      return { kind: 'ok' };
+    }
+    if (status === 408 || status === 429 || status >= 500) {
+      return { kind: 'retry', retryAfterMs: parseRetryAfter(res.headers?.get('retry-after')) };
+    }
+    reportInternal(`HttpTransport dropped a batch rejected with status ${status}`);
+    return { kind: 'drop' };
+  }
+
+  function backoff(attempts: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) return retryAfterMs;
+    const exp = Math.min(maxDelay, baseDelay * 2 ** (attempts - 1));
+    // "equal jitter": keep at least half the delay, randomise the rest
+    return exp / 2 + Math.random() * (exp / 2);
+  }
+
+  function remove(entry: OutboxEntry, outcome: 'delivered' | 'failed'): void {
+    // the entry may already have been dropped by trim() while it was in flight
+    const index = outbox.indexOf(entry);
+    if (index >= 0) {
+      outbox.splice(index, 1);
+      counts[outcome] += entry.records ?? 0;
+    }
+  }
+
+  async function deliver(): Promise<void> {
+    try {
+      await load();
+      while (outbox.length > 0 && Date.now() >= nextAttemptAt) {
+        const entry = outbox[0];
+        const result = await send(entry.body);
+        if (result.kind === 'retry') {
+          entry.attempts += 1;
+          if (entry.attempts >= maxAttempts) {
+            reportInternal(`HttpTransport dropped a batch after ${entry.attempts} attempts`);
+            remove(entry, 'failed');
+          } else {
+            nextAttemptAt = Date.now() + backoff(entry.attempts, result.retryAfterMs);
+          }
+        } else {
+          remove(entry, result.kind === 'ok' ? 'delivered' : 'failed');
+          nextAttemptAt = 0;
+        }
+        await persist();
+      }
+    } finally {
+      delivering = null;
+    }
+  }
+
+  function run(): Promise<void> {
+    // a single delivery loop at a time keeps batches in order; batches written
+    // while it runs are picked up before it exits
+    if (!delivering) {
+      delivering = deliver();
+    }
+    return delivering;
+  }
+
   return {
     name: 'http',
     async write(batch: LogRecord[]): Promise<void> {
-      try {
-        await fetch(url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', ...(headers ?? {}) },
-          body: JSON.stringify(batch)
-        });
-      } catch (err) {
-        // network errors are ignored; consider implementing retry
-      }
+      const body = encode(batch);
+      // load first so persisting the new batch cannot overwrite the stored outbox
+      await load();
+      outbox.push({ body, attempts: 0, records: batch.length });
+      trim();
+      await persist();
+      // the batch is safe in the outbox; delivery never fails the write
+      run().catch(() => undefined);
+    },
+    async flush(): Promise<void> {
+      await run();
+    },
+    stats(): TransportDeliveryStats {
+      return { ...counts };
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ * @param value - The header value
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,172 @@
+import { Transport, LogRecord, LogLevel } from '../types';
+import { HttpTransport, HttpTransportOptions } from './HttpTransport';
+import { normalizeRecord } from '../utils/serializer';
+
+/**
+ * Options for configuring the OtlpHttpTransport. Delivery options (`headers`,
+ * `retry`, `storage`, ...) are the same as for `HttpTransport`.
+ */
+export interface OtlpHttpTransportOptions extends Omit<HttpTransportOptions, 'url' | 'encode' | 'serializer' | 'formatter'> {
+  /** OTLP/HTTP logs endpoint. Defaults to `http://localhost:4318/v1/logs`. */
+  url?: string;
+  /** Extra resource attributes, e.g. `{ 'service.name': 'my-app' }`. Merged over `device`. */
+  resource?: Record<string, unknown>;
+}
+
+/** OTLP `AnyValue` in its JSON encoding */
+type AnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: AnyValue[] } }
+  | { kvlistValue: { values: KeyValue[] } }
+  | Record<string, never>;
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+/** Severity numbers from the OpenTelemetry log data model */
+const SEVERITY: Record<LogLevel, number> = {
+  trace: 1,
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21
+};
+
+// traceparent: version-traceid-spanid-flags
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const TRACE_ID = /^[0-9a-f]{32}$/;
+
+/**
+ * Creates a transport that exports logs to an OpenTelemetry collector using the
+ * OTLP/HTTP JSON encoding. Each batch from the logger becomes one export request:
+ *
+ * - `level` maps to `severityNumber`/`severityText`
+ * - `msg` becomes the body and `ctx` the attributes
+ * - `ns` becomes the instrumentation scope (records are grouped per namespace)
+ * - `device` and `resource` become resource attributes
+ * - a `correlationId` that is a W3C `traceparent` (or a bare 32-hex trace ID)
+ *   fills `traceId`/`spanId`/`flags`; any other value is kept as the
+ *   `correlation.id` attribute
+ * - `err` maps to the `exception.*` semantic-convention attributes
+ *
+ * Delivery, retry and offline persistence are handled by `HttpTransport`.
+ *
+ * @param opts - Endpoint, resource and delivery options
+ * @returns A Transport instance for OTLP export
+ *
+ * @example
+ * ```typescript
+ * initLogger({
+ *   level: 'info',
+ *   transports: [
+ *     OtlpHttpTransport({
+ *       url: 'https://otel.example.com/v1/logs',
+ *       resource: { 'service.name': 'shop-app' }
+ *     })
+ *   ]
+ * });
+ * ```
+ */
+export function OtlpHttpTransport(opts: OtlpHttpTransportOptions = {}): Transport {
+  const { url = 'http://localhost:4318/v1/logs', resource, ...delivery } = opts;
+  const http = HttpTransport({
+    ...delivery,
+    url,
+    storageKey: delivery.storageKey ?? 'rn-structured-logger:otlp-outbox',
+    encode: batch => JSON.stringify(toOtlpLogs(batch, resource))
+  });
+  return { ...http, name: 'otlp' };
+}
+
+/**
+ * Converts a batch of records into an OTLP `ExportLogsServiceRequest` object.
+ * Records are grouped by device (resource) and namespace (scope).
+ * @param batch - Records to convert
+ * @param resource - Extra resource attributes
+ * @returns The request payload in OTLP JSON form
+ */
+export function toOtlpLogs(batch: LogRecord[], resource?: Record<string, unknown>): Record<string, unknown> {
+  const resources = new Map<string, { attributes: KeyValue[]; scopes: Map<string, unknown[]> }>();
+  for (const raw of batch) {
+    const rec = normalizeRecord(raw);
+    const resourceAttrs = { ...rec.device, ...resource };
+    const resourceKey = JSON.stringify(resourceAttrs);
+    let group = resources.get(resourceKey);
+    if (!group) {
+      group = { attributes: toAttributes(resourceAttrs), scopes: new Map() };
+      resources.set(resourceKey, group);
+    }
+    const scope = rec.ns ?? '';
+    let logs = group.scopes.get(scope);
+    if (!logs) {
+      logs = [];
+      group.scopes.set(scope, logs);
+    }
+    logs.push(toLogRecord(rec));
+  }
+  return {
+    resourceLogs: Array.from(resources.values()).map(group => ({
+      resource: { attributes: group.attributes },
+      scopeLogs: Array.from(group.scopes.entries()).map(([name, logRecords]) => ({
+        scope: { name },
+        logRecords
+      }))
+    }))
+  };
+}
+
+function toLogRecord(rec: LogRecord): Record<string, unknown> {
+  const nanos = `${rec.ts}000000`;
+  const attributes: Record<string, unknown> = { ...rec.ctx };
+  const out: Record<string, unknown> = {
+    timeUnixNano: nanos,
+    observedTimeUnixNano: nanos,
+    severityNumber: SEVERITY[rec.level],
+    severityText: rec.level.toUpperCase(),
+    body: { stringValue: rec.msg }
+  };
+  const id = rec.correlationId?.toLowerCase();
+  const parent = id ? TRACEPARENT.exec(id) : null;
+  if (parent) {
+    out.traceId = parent[2];
+    out.spanId = parent[3];
+    out.flags = parseInt(parent[4], 16);
+  } else if (id && TRACE_ID.test(id)) {
+    out.traceId = id;
+  } else if (rec.correlationId) {
+    attributes['correlation.id'] = rec.correlationId;
+  }
+  if (rec.err) {
+    attributes['exception.type'] = rec.err.name;
+    attributes['exception.message'] = rec.err.message;
+    if (rec.err.stack) attributes['exception.stacktrace'] = rec.err.stack;
+  }
+  out.attributes = toAttributes(attributes);
+  return out;
+}
+
+function toAttributes(obj: Record<string, unknown>): KeyValue[] {
+  return Object.keys(obj)
+    .filter(key => obj[key] !== undefined)
+    .map(key => ({ key, value: toAnyValue(obj[key]) }));
+}
+
+function toAnyValue(value: unknown): AnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    // int64 as a decimal string; larger integers are not exact anyway and `String` would write exponents
+    return Number.isSafeInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  if (value && typeof value === 'object') {
+    return { kvlistValue: { values: toAttributes(value as Record<string, unknown>) } };
+  }
+  return {};
+}
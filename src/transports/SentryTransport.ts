@@ -1,23 +1,31 @@
-import { Transport, LogRecord } from '../types';
+import { Transport, LogRecord, SerializedError } from '../types';
+import { TransportDeliveryStats } from '../utils/stats';
+import { normalizeRecord } from '../utils/serializer';
 import * as Sentry from '@sentry/react-native';
+import { reportInternal } from '../utils/debug';
 
 /**
  * Creates a Sentry transport that forwards logs to Sentry. Warnings, errors and
  * fatal logs are sent as Sentry breadcrumbs and errors/fatals are also
- * captured as messages. Lower severity logs become breadcrumbs only.
+ * captured as messages. Records carrying a serialized `err` are captured as
+ * exceptions instead, so Sentry groups them by the original stack trace. Lower
+ * severity logs become breadcrumbs only.
  * @returns A Transport instance for Sentry logging
  */
 export function SentryTransport(): Transport {
+  let failed = 0;
   return {
     name: 'sentry',
     write(batch: LogRecord[]): void {
       try {
-        for (const rec of batch) {
+        for (const raw of batch) {
+          const rec = normalizeRecord(raw);
           const data = {
             ...rec.ctx,
             correlationId: rec.correlationId,
             ns: rec.ns,
-            device: rec.device
+            device: rec.device,
+            err: rec.err
           } as any;
           // Add a breadcrumb for all records
           Sentry.addBreadcrumb({
@@ -27,23 +35,40 @@ export function SentryTransport(): Transport {
             data
           });
           if (rec.level === 'error' || rec.level === 'fatal') {
-            Sentry.captureMessage(rec.msg, {
-              level: rec.level === 'fatal' ? 'fatal' : 'error',
-              extra: data
-            });
+            const level = rec.level === 'fatal' ? 'fatal' : 'error';
+            if (rec.err) {
+              Sentry.captureException(toError(rec.err), { level, extra: data });
+            } else {
+              Sentry.captureMessage(rec.msg, { level, extra: data });
+            }
           }
         }
       } catch (err) {
-        // silently ignore Sentry errors
+        // never let Sentry errors reach the app; the logger's stats count them
+        failed += batch.length;
+        reportInternal('SentryTransport failed to forward records', err);
       }
     },
+    stats(): TransportDeliveryStats {
+      return { failed };
+    },
     async flush(): Promise<void> {
       try {
         // flush with a timeout of 2 seconds
         await Sentry.flush(2000);
       } catch (err) {
-        // ignore flush errors
+        reportInternal('SentryTransport flush failed', err);
       }
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Rebuilds an `Error` from its serialized form so Sentry can parse the stack.
+ */
+function toError(serialized: SerializedError): Error {
+  const err = new Error(serialized.message);
+  err.name = serialized.name;
+  if (serialized.stack) err.stack = serialized.stack;
+  return err;
+}
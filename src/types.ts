@@ -1,8 +1,35 @@
+import type { CaptureGlobalErrorsOptions } from './globalErrors';
+import type { OverflowPolicy } from './utils/queue';
+import type { CircuitBreakerOptions, TransportErrorInfo } from './utils/transportLane';
+import type { RateLimitOptions } from './utils/rateLimiter';
+import type { DedupeOptions } from './utils/dedupe';
+import type { TransportDeliveryStats } from './utils/stats';
+
 /**
  * Defines the severity levels supported by the logger.  Lower values are more verbose.
  */
 export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
 
+/**
+ * Plain, JSON-safe representation of an `Error` produced by `serializeError`.
+ */
+export interface SerializedError {
+  /** Error class name, e.g. `TypeError` */
+  name: string;
+  /** Error message */
+  message: string;
+  /** Stack trace, when available */
+  stack?: string;
+  /** Error code (e.g. `ECONNRESET`), when present on the error */
+  code?: string | number;
+  /** Serialized `cause`; non-error causes are kept as-is */
+  cause?: unknown;
+  /** Serialized members of an `AggregateError` */
+  errors?: unknown[];
+  /** Custom enumerable properties copied from the error */
+  [key: string]: unknown;
+}
+
 /**
  * Structure of a log record.  All fields except `ts`, `level` and `msg` are optional.
  */
@@ -17,10 +44,14 @@ export interface LogRecord {
   ns?: string;
   /** Arbitrary context information serialized into the record */
   ctx?: Record<string, unknown>;
+  /** Serialized error attached by `Logger.error`/`Logger.fatal` */
+  err?: SerializedError;
   /** Correlation ID used to tie logs belonging to the same request or session */
   correlationId?: string;
   /** Static device/app information or additional metadata */
   device?: Record<string, unknown>;
+  /** Set by the serializer when part of the record was cut to respect its size caps */
+  truncated?: boolean;
 }
 
 /**
@@ -43,6 +74,74 @@ export interface Transport {
    * Dispose the transport, releasing any resources.  Optional.
    */
   dispose?(): Promise<void>;
+  /**
+   * Counters of failures the transport handles instead of throwing, and of
+   * its background deliveries.  Merged into its entry in `Logger.getStats()`.  Optional.
+   */
+  stats?(): TransportDeliveryStats;
+}
+
+/**
+ * Options accepted by `Logger.child()` when more than a namespace is needed.
+ */
+export interface ChildLoggerOptions {
+  /** Namespace appended to the parent's namespace */
+  ns?: string;
+  /** Fields merged into the `ctx` of every record; stacked on top of the parent's bindings */
+  bindings?: Record<string, unknown>;
+}
+
+/**
+ * Size and modification time of a stored file, as returned by `LogStorage.stat`.
+ */
+export interface LogFileStat {
+  /** Size in bytes */
+  size: number;
+  /** Last modification time in milliseconds since epoch, when known */
+  mtime?: number;
+}
+
+/**
+ * A file found by `LogStorage.list`.
+ */
+export interface LogStorageEntry {
+  /** File name without the directory */
+  name: string;
+  /** Absolute path */
+  path: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * File-system abstraction used by `FileTransport`.  Adapters exist for
+ * react-native-fs, expo-file-system, Node `fs` and memory; implement this
+ * interface to store logs anywhere else.  All text is UTF-8.
+ */
+export interface LogStorage {
+  /** Directory files are written to unless the transport is given another one */
+  directory: string;
+  /** Returns the size and modification time of a file, or null if it does not exist. */
+  stat(path: string): Promise<LogFileStat | null>;
+  /** Appends text to a file, creating it if needed. */
+  append(path: string, data: string): Promise<void>;
+  /** Appends raw bytes to a file, creating it if needed.  Needed for encrypted files. */
+  appendBytes?(path: string, data: Uint8Array): Promise<void>;
+  /** Moves (renames) a file. */
+  move(from: string, to: string): Promise<void>;
+  /**
+   * Reads a file, or `length` bytes of it starting at byte `position`.  A
+   * character cut by the range is dropped; see `decodeUtf8Range`.
+   */
+  read(path: string, length?: number, position?: number): Promise<string>;
+  /** Lists the files in a directory. */
+  list(dir: string): Promise<LogStorageEntry[]>;
+  /** Deletes a file; missing files are ignored. */
+  delete(path: string): Promise<void>;
+  /** Reads a whole file as raw bytes.  Needed for gzip bundles and compressed files. */
+  readBytes?(path: string): Promise<Uint8Array>;
+  /** Writes raw bytes to a file, replacing its contents. */
+  writeBytes?(path: string, data: Uint8Array): Promise<void>;
 }
 
 /**
@@ -51,28 +150,146 @@ export interface Transport {
  */
 export type Redactor = (record: LogRecord) => LogRecord;
 
+/**
+ * A function that turns a log record into a single JSON string.  Built-in transports
+ * use one created by `makeSerializer`; it never throws on circular or exotic values.
+ */
+export type Serializer = (record: LogRecord) => string;
+
+/**
+ * Turns log records into text for a transport.  Built-in formatters are
+ * `JsonFormatter`, `LogfmtFormatter`, `PrettyFormatter`, `EcsFormatter` and
+ * `GelfFormatter`; any object with this shape can be passed as `formatter`.
+ */
+export interface Formatter {
+  /** Unique name for the formatter */
+  name: string;
+  /** Content type of formatted batches, used by `HttpTransport`.  Defaults to `text/plain`. */
+  contentType?: string;
+  /** Formats a single record.  File transports write one result per line. */
+  format(record: LogRecord): string;
+  /**
+   * Formats a whole batch into one request body.  Optional; defaults to the
+   * formatted records joined with newlines.
+   */
+  formatBatch?(batch: LogRecord[]): string;
+}
+
+/**
+ * Limits applied by `makeSerializer`.  Anything cut to honour them marks the record
+ * with `truncated: true`.
+ */
+export interface SerializerOptions {
+  /** Maximum nesting depth inside `ctx`, `device` and `err`.  Defaults to 10. */
+  maxDepth?: number;
+  /** Maximum number of array (and Set/Map) entries kept.  Defaults to 100. */
+  maxArrayLength?: number;
+  /** Maximum length of any string value, including `msg`.  Defaults to 8192. */
+  maxStringLength?: number;
+  /** Maximum size of the serialized record in UTF-8 bytes.  Defaults to 64 KiB. */
+  maxBytes?: number;
+}
+
+/**
+ * Options for tail-based "flush on error" buffering.  Records that would otherwise be
+ * dropped (below the level threshold or sampled out) are kept in memory and written
+ * together with the next error; if no error comes they are silently discarded.
+ */
+export interface FlushOnErrorOptions {
+  /** Maximum records kept per buffer.  Defaults to 100. */
+  maxRecords?: number;
+  /** Records older than this many milliseconds are discarded.  Unlimited by default. */
+  maxAgeMs?: number;
+  /** Keep a separate buffer per correlation ID instead of one global buffer. */
+  perCorrelationId?: boolean;
+  /** Lowest level that is buffered.  Defaults to `trace`. */
+  captureLevel?: LogLevel;
+  /** Level that releases the buffer.  Defaults to `error`. */
+  triggerLevel?: LogLevel;
+}
+
 /**
  * Configuration passed to `initLogger`.  See README.md for details.
  */
 export interface LoggerConfig {
   /** Minimum severity to record.  Lower levels are ignored. */
   level: LogLevel;
+  /**
+   * Namespace-pattern level overrides, e.g. `{ 'auth:*': 'debug', 'api:http': 'trace' }`.
+   * `*` matches any characters; the most specific matching pattern wins over `level`.
+   */
+  levels?: Record<string, LogLevel>;
   /** Transports that handle log records.  At least one transport is required. */
   transports: Transport[];
   /** Optional namespace to apply to all logs from this logger instance. */
   namespace?: string;
+  /**
+   * Fields merged into the `ctx` of every record written by this logger.  Per-call
+   * context wins over bindings when keys collide.
+   */
+  bindings?: Record<string, unknown>;
   /** Redactor used to remove or mask sensitive data from logs */
   redactor?: Redactor;
   /** Sampling strategy.  Non‑error/fatal logs are recorded at the given rate (0..1). */
   sampling?: { rate: number };
-  /** Rate limit configuration.  Maximum number of logs per minute. */
-  rateLimit?: { maxPerMin: number };
+  /** Keep recent unwritten records in memory and write them when an error is logged. */
+  flushOnError?: FlushOnErrorOptions;
+  /**
+   * Token-bucket rate limit: `maxPerMin` sustained with bursts up to `burst`, per
+   * `key` (global, namespace, level or message fingerprint).  Errors and fatals
+   * are exempt by default.  Suppressed records are summarised by a
+   * "Suppressed N similar messages" record.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Collapse identical records (same level, namespace, message and `ctxKeys`
+   * values) arriving within `windowMs` of each other: the first is written,
+   * the rest are counted and reported by one summary when the window closes
+   * or on flush.  Off by default; `true` uses the defaults.
+   */
+  dedupe?: boolean | DedupeOptions;
   /** Batching configuration.  Batch size and interval in milliseconds. */
-  batch?: { size: number; intervalMs: number };
+  batch?: {
+    size: number;
+    intervalMs: number;
+    /** Maximum records waiting to be written.  Unbounded by default. */
+    maxQueueSize?: number;
+    /** What to drop when the queue is full.  Defaults to `drop-oldest`. */
+    overflow?: OverflowPolicy;
+    /** Records below this level are dropped first by `drop-below-level`.  Defaults to `warn`. */
+    overflowLevel?: LogLevel;
+  };
+  /**
+   * Time in milliseconds after which a transport write, flush or dispose counts
+   * as failed, so a hanging transport frees its queue.  Defaults to 10 seconds.
+   */
+  writeTimeoutMs?: number;
+  /**
+   * Pauses a transport after consecutive failures and probes it again after a
+   * cooldown; batches for a paused transport are dropped.  Enabled with the
+   * defaults unless set to false.
+   */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /**
+   * Called when a transport throws, rejects or times out.  Each transport has its
+   * own queue, so failures never affect the others and never reach the caller.
+   */
+  onTransportError?: (error: unknown, info: TransportErrorInfo) => void;
+  /**
+   * Writes a `Logger stats` record (namespace `logger`) with the counters of
+   * `Logger.getStats()` every `intervalMs`.  `level` defaults to `info`; the
+   * record bypasses the level threshold, sampling, rate limiting and dedupe.
+   */
+  stats?: { intervalMs: number; level?: LogLevel };
   /** Correlation ID applied to all records until changed */
   correlationId?: string;
   /** Static device/application metadata applied to all records */
   device?: Record<string, unknown>;
-  /** If true, will replace console.log/info/warn/error with logger methods */
+  /** If true, will replace console.log/info/warn/error with logger methods until `dispose()`.  See `Logger.patchConsole`. */
   patchConsole?: boolean;
+  /**
+   * Log uncaught JS errors and unhandled promise rejections, flushing before the
+   * previous handler runs.  See `captureGlobalErrors`.
+   */
+  captureGlobalErrors?: boolean | CaptureGlobalErrorsOptions;
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const LOOKUP: Record<string, number> = {};
+for (let i = 0; i < ALPHABET.length; i++) LOOKUP[ALPHABET[i]] = i;
+
+/**
+ * Encodes bytes as base64.  Used by storage adapters whose native modules only
+ * transfer binary data as base64 strings; no `Buffer` or `btoa` is required.
+ * @param bytes - The bytes to encode
+ * @returns The padded base64 string
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    out += ALPHABET[a >> 2] + ALPHABET[((a & 3) << 4) | (b >> 4)];
+    out += i + 1 < bytes.length ? ALPHABET[((b & 15) << 2) | (c >> 6)] : '=';
+    out += i + 2 < bytes.length ? ALPHABET[c & 63] : '=';
+  }
+  return out;
+}
+
+/**
+ * Decodes a base64 string.  Whitespace and padding are ignored.
+ * @param str - The base64 string
+ * @returns The decoded bytes
+ */
+export function fromBase64(str: string): Uint8Array {
+  const clean = str.replace(/[^A-Za-z0-9+/]/g, '');
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const ch of clean) {
+    value = (value << 6) | LOOKUP[ch];
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out[index++] = (value >> bits) & 0xff;
+    }
+  }
+  return out.subarray(0, index);
+}
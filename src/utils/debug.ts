@@ -0,0 +1,40 @@
+import { withOriginalConsole } from '../consolePatch';
+
+/**
+ * Receives the library's own errors: failed rotations, outbox persistence,
+ * transport failures and the like, which are otherwise handled silently so
+ * logging never crashes the app.
+ */
+export type DebugHandler = (message: string, error?: unknown) => void;
+
+let handler: DebugHandler | undefined;
+
+/**
+ * Sets the handler of the internal debug channel, or removes it. Without a
+ * handler, internal errors are not reported anywhere.
+ * @param next - The handler, or undefined to remove it
+ *
+ * @example
+ * ```typescript
+ * if (__DEV__) {
+ *   setDebugHandler((message, error) => console.warn(`[rn-structured-logger] ${message}`, error));
+ * }
+ * ```
+ */
+export function setDebugHandler(next?: DebugHandler): void {
+  handler = next;
+}
+
+/**
+ * Reports an internal error to the debug channel. Never throws.
+ * @param message - What failed
+ * @param error - The error, if any
+ */
+export function reportInternal(message: string, error?: unknown): void {
+  try {
+    // a handler printing to the console must not loop back into a patched console
+    withOriginalConsole(() => handler?.(message, error));
+  } catch (err) {
+    // the debug handler itself failed; nothing left to report to
+  }
+}
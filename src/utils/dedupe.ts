@@ -0,0 +1,144 @@
+import { LogRecord } from '../types';
+
+/**
+ * Duplicate collapsing configuration.
+ */
+export interface DedupeOptions {
+  /**
+   * A window stays open while duplicates keep arriving within this many
+   * milliseconds of each other, and closes after this much quiet.  Defaults to 5 seconds.
+   */
+  windowMs?: number;
+  /** Context keys that are part of the fingerprint, e.g. `['url', 'status']`.  Defaults to none. */
+  ctxKeys?: string[];
+  /**
+   * A window is closed and summarised at the latest this many milliseconds
+   * after it opened, even while duplicates keep arriving; the next duplicate
+   * then passes and opens a new window.  Defaults to 60 seconds.
+   */
+  summaryIntervalMs?: number;
+}
+
+/**
+ * A duplicate collapser created by `makeDeduper`.
+ */
+export interface Deduper {
+  /**
+   * Checks a record against the open windows.
+   * @returns False if the record duplicates one seen in an open window
+   */
+  accept(record: LogRecord): boolean;
+  /**
+   * Returns summary records for closed windows that collapsed duplicates; with
+   * `flush`, closes and summarises all open windows too.
+   */
+  summaries(flush?: boolean): LogRecord[];
+  /** Earliest time a window with duplicates may close, if any */
+  nextCloseAt(): number | undefined;
+}
+
+interface DedupeWindow {
+  count: number;
+  firstTs: number;
+  lastTs: number;
+  first: LogRecord;
+}
+
+// upper bound on windows tracked at once; the least recently seen one is closed
+const MAX_WINDOWS = 1000;
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (err) {
+    return String(value);
+  }
+}
+
+/**
+ * Creates a duplicate collapser. The first record with a fingerprint (level,
+ * namespace, message and the selected context values) passes and opens a
+ * window; identical records are collapsed while they keep arriving within
+ * `windowMs` of the previous one, for at most `summaryIntervalMs`. When the
+ * window closes, one summary record reports how many duplicates were collapsed.
+ * @param opts - Window lengths and fingerprinted context keys
+ * @returns The deduper
+ *
+ * @example
+ * ```typescript
+ * const deduper = makeDeduper({ windowMs: 10_000, ctxKeys: ['url'] });
+ * if (deduper.accept(record)) write(record);
+ * deduper.summaries().forEach(write);
+ * ```
+ */
+export function makeDeduper(opts: DedupeOptions = {}): Deduper {
+  const windowMs = opts.windowMs ?? 5000;
+  const ctxKeys = opts.ctxKeys ?? [];
+  const summaryIntervalMs = opts.summaryIntervalMs ?? 60_000;
+  const windows = new Map<string, DedupeWindow>();
+  let closed: DedupeWindow[] = [];
+  // no window with duplicates closes before this; may be early as repeats extend windows
+  let due = Infinity;
+
+  const keyOf = (rec: LogRecord): string =>
+    [rec.level, rec.ns ?? '', rec.msg, ...ctxKeys.map(key => stringify(rec.ctx?.[key]))].join('\u0000');
+
+  const close = (key: string, w: DedupeWindow): void => {
+    windows.delete(key);
+    if (w.count > 0) closed.push(w);
+  };
+
+  const toRecord = (w: DedupeWindow): LogRecord => ({
+    ts: Date.now(),
+    level: w.first.level,
+    msg: `${w.first.msg} (repeated ${w.count} ${w.count === 1 ? 'time' : 'times'})`,
+    ns: w.first.ns,
+    ctx: { count: w.count, firstTs: w.firstTs, lastTs: w.lastTs },
+    correlationId: w.first.correlationId,
+    device: w.first.device
+  });
+
+  return {
+    accept(record) {
+      const key = keyOf(record);
+      const w = windows.get(key);
+      if (w) {
+        // keep the map in least recently seen order
+        windows.delete(key);
+        if (record.ts - w.lastTs < windowMs && record.ts - w.firstTs < summaryIntervalMs) {
+          if (w.count === 0) due = Math.min(due, record.ts + windowMs, w.firstTs + summaryIntervalMs);
+          w.count++;
+          w.lastTs = record.ts;
+          windows.set(key, w);
+          return false;
+        }
+        if (w.count > 0) closed.push(w);
+      } else if (windows.size >= MAX_WINDOWS) {
+        const [oldestKey, oldest] = windows.entries().next().value as [string, DedupeWindow];
+        close(oldestKey, oldest);
+      }
+      windows.set(key, { count: 0, firstTs: record.ts, lastTs: record.ts, first: record });
+      return true;
+    },
+    summaries(flush = false) {
+      const now = Date.now();
+      // scan the windows only when one may be due, not on every record
+      if (flush || now >= due) {
+        due = Infinity;
+        for (const [key, w] of windows) {
+          if (flush || now - w.lastTs >= windowMs || now - w.firstTs >= summaryIntervalMs) {
+            close(key, w);
+          } else if (w.count > 0) {
+            due = Math.min(due, w.lastTs + windowMs, w.firstTs + summaryIntervalMs);
+          }
+        }
+      }
+      const done = closed;
+      closed = [];
+      return done.map(toRecord);
+    },
+    nextCloseAt() {
+      return due === Infinity ? undefined : due;
+    }
+  };
+}
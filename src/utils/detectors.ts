@@ -0,0 +1,139 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+/**
+ * How a detected or selected value is replaced:
+ * - `mask`: `[REDACTED:<detector>]`
+ * - `partial`: `****` followed by the last 4 letters or digits, e.g. `****1234`
+ * - `hash`: `[hash:<16 hex chars>]`, a salted HMAC-SHA256 so equal values can
+ *   still be correlated across records
+ */
+export type ReplacementStyle = 'mask' | 'partial' | 'hash';
+
+/** Names of the built-in value detectors */
+export type DetectorName = 'email' | 'pan' | 'jwt' | 'bearer' | 'iban' | 'phone';
+
+/**
+ * Finds sensitive values inside strings.
+ */
+export interface ValueDetector {
+  /** Name used in masks, e.g. `[REDACTED:ssn]` */
+  name: string;
+  /**
+   * Pattern matching the value; the `g` flag is added if missing. If the
+   * pattern has a capture group, the text of the first group is kept, e.g. the
+   * `Bearer ` prefix of a token.
+   */
+  pattern: RegExp;
+  /** Rejects false positives, e.g. a Luhn check for card numbers */
+  validate?: (match: string) => boolean;
+  /** Replacement style for this detector, overriding the redactor's */
+  replacement?: ReplacementStyle;
+}
+
+/**
+ * Tests a number with the Luhn checksum used by payment cards.
+ * @param digits - The digits, without separators
+ * @returns True if the checksum is valid
+ */
+export function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanChecksum(value: string): boolean {
+  const iban = value.replace(/\s/g, '');
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const n = parseInt(ch, 36);
+    remainder = n > 9 ? (remainder * 100 + n) % 97 : (remainder * 10 + n) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * The built-in detectors. Card numbers, IBANs and phone numbers are validated
+ * to keep false positives such as timestamps and IDs out.
+ */
+export const BUILTIN_DETECTORS: Record<DetectorName, ValueDetector> = {
+  jwt: { name: 'jwt', pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g },
+  bearer: { name: 'bearer', pattern: /\b(Bearer\s+)[\w\-.~+/]+=*/gi },
+  email: { name: 'email', pattern: /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  pan: {
+    name: 'pan',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: match => luhn(match.replace(/\D/g, ''))
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: ibanChecksum
+  },
+  phone: {
+    name: 'phone',
+    // an international prefix, an area code in parentheses, or digit groups split
+    // by spaces or dashes; dots are left out so IPs, versions and decimals never match
+    pattern: /\+\d[\d\s()-]{6,}\d|\(\d{2,5}\)[\s-]?\d[\d\s-]{4,}\d|\b\d{2,5}(?:[\s-]\d{2,5}){2,4}\b/g,
+    // 8 to 15 digits, and not a date
+    validate: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15 && !/\d{4}-\d\d-\d\d/.test(match);
+    }
+  }
+};
+
+/**
+ * Creates a function replacing a sensitive value in the given style.
+ * @param salt - Salt (HMAC key) for the `hash` style
+ * @returns A function of the value, the style and the detector or rule name
+ */
+export function makeReplacer(salt: string): (value: string, style: ReplacementStyle, name: string) => string {
+  const key = utf8ToBytes(salt);
+  return (value, style, name) => {
+    if (style === 'partial') {
+      return `****${value.replace(/[^A-Za-z0-9]/g, '').slice(-4)}`;
+    }
+    if (style === 'hash') {
+      return `[hash:${bytesToHex(hmac(sha256, key, utf8ToBytes(value))).slice(0, 16)}]`;
+    }
+    return `[REDACTED:${name}]`;
+  };
+}
+
+/**
+ * Creates a function replacing every value found by the detectors in a string.
+ * @param detectors - Detectors, applied in order
+ * @param style - Default replacement style
+ * @param replace - Replacer from `makeReplacer`
+ * @returns A function scrubbing a string
+ */
+export function makeScrubber(
+  detectors: ValueDetector[],
+  style: ReplacementStyle,
+  replace: ReturnType<typeof makeReplacer>
+): (text: string) => string {
+  const compiled = detectors.map(detector => ({
+    ...detector,
+    pattern: detector.pattern.global ? detector.pattern : new RegExp(detector.pattern.source, `${detector.pattern.flags}g`)
+  }));
+  return text => {
+    for (const detector of compiled) {
+      text = text.replace(detector.pattern, (match: string, keep?: unknown) => {
+        if (detector.validate && !detector.validate(match)) return match;
+        const prefix = typeof keep === 'string' ? keep : '';
+        return prefix + replace(match.slice(prefix.length), detector.replacement ?? style, detector.name);
+      });
+    }
+    return text;
+  };
+}
@@ -0,0 +1,56 @@
+import { SerializedError } from '../types';
+
+// nested causes/aggregate members beyond this depth are cut off
+const MAX_DEPTH = 10;
+
+/**
+ * Returns true when the value is an `Error` instance, including errors created
+ * in another realm (where `instanceof` fails).
+ * @param value - The value to check
+ * @returns True if the value is an Error
+ */
+export function isError(value: unknown): value is Error {
+  return value instanceof Error || Object.prototype.toString.call(value) === '[object Error]';
+}
+
+/**
+ * Converts an `Error` into a plain, JSON-safe object. Captures `name`, `message`,
+ * `stack`, `code`, the `cause` chain, the members of an `AggregateError` and any
+ * custom enumerable properties. Values that are not errors are wrapped so the
+ * result always has a `name` and `message`.
+ * @param err - The error (or thrown value) to serialize
+ * @returns The serialized error
+ */
+export function serializeError(err: unknown): SerializedError {
+  return serialize(err, new Set(), 0);
+}
+
+function serialize(err: unknown, seen: Set<unknown>, depth: number): SerializedError {
+  if (!isError(err)) {
+    return { name: 'NonError', message: typeof err === 'string' ? err : String(err) };
+  }
+  seen.add(err);
+  const out: SerializedError = { name: err.name, message: err.message };
+  if (err.stack) out.stack = err.stack;
+  const extra = err as Error & { code?: unknown; cause?: unknown; errors?: unknown };
+  if (extra.code !== undefined) out.code = extra.code as string | number;
+  if (extra.cause !== undefined) {
+    out.cause = nested(extra.cause, seen, depth);
+  }
+  if (Array.isArray(extra.errors)) {
+    out.errors = extra.errors.map(e => nested(e, seen, depth));
+  }
+  for (const key of Object.keys(err)) {
+    if (key in out || key === 'cause' || key === 'errors') continue;
+    const value = (err as unknown as Record<string, unknown>)[key];
+    out[key] = isError(value) ? nested(value, seen, depth) : value;
+  }
+  return out;
+}
+
+function nested(value: unknown, seen: Set<unknown>, depth: number): unknown {
+  if (!isError(value)) return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth + 1 >= MAX_DEPTH) return { name: value.name, message: value.message };
+  return serialize(value, seen, depth + 1);
+}
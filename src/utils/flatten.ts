@@ -0,0 +1,24 @@
+/**
+ * Flattens nested objects into a single level, joining keys with a separator.
+ * Arrays and other non-plain values are kept as leaves.
+ * @param obj - The object to flatten
+ * @param separator - String placed between nested keys. Defaults to `.`
+ * @param prefix - Key prefix used for recursion
+ * @returns A flat object of leaf values
+ */
+export function flatten(
+  obj: Record<string, unknown>,
+  separator = '.',
+  prefix = ''
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix ? `${prefix}${separator}${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(out, flatten(value as Record<string, unknown>, separator, path));
+    } else if (value !== undefined) {
+      out[path] = value;
+    }
+  }
+  return out;
+}
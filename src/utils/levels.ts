@@ -0,0 +1,90 @@
+import { LogLevel } from '../types';
+import { matchNamespace } from './namespace';
+
+/**
+ * All log levels ordered from most verbose to most severe.
+ */
+export const LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+/**
+ * Determines whether a level is at or above a threshold.
+ * @param level - The level of the record
+ * @param threshold - The minimum level that should pass
+ * @returns True if `level` is at least as severe as `threshold`
+ */
+export function levelAtLeast(level: LogLevel, threshold: LogLevel): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+}
+
+/**
+ * Holds the default level and namespace-pattern overrides shared by a root logger
+ * and all of its children. When several patterns match a namespace, the one with
+ * the most literal (non-`*`) characters wins; ties go to the pattern set last.
+ */
+export class LevelRegistry {
+  private overrides = new Map<string, LogLevel>();
+  private cache = new Map<string, LogLevel>();
+
+  /**
+   * Creates a registry.
+   * @param defaultLevel - Level used for namespaces without a matching override
+   * @param overrides - Initial pattern overrides, e.g. `{ 'api:*': 'trace' }`
+   */
+  constructor(private defaultLevel: LogLevel, overrides: Record<string, LogLevel> = {}) {
+    for (const [pattern, level] of Object.entries(overrides)) {
+      this.overrides.set(pattern, level);
+    }
+  }
+
+  /**
+   * Sets the default level.
+   * @param level - The new default level
+   */
+  setDefault(level: LogLevel): void {
+    this.defaultLevel = level;
+    this.cache.clear();
+  }
+
+  /**
+   * Sets the level for namespaces matching a pattern.
+   * @param pattern - Namespace glob such as `api:*`
+   * @param level - Level applied to matching namespaces
+   */
+  set(pattern: string, level: LogLevel): void {
+    // re-insert so a later call wins ties against older patterns
+    this.overrides.delete(pattern);
+    this.overrides.set(pattern, level);
+    this.cache.clear();
+  }
+
+  /**
+   * Removes a pattern override.
+   * @param pattern - The pattern passed to `set` or the `levels` config
+   */
+  delete(pattern: string): void {
+    this.overrides.delete(pattern);
+    this.cache.clear();
+  }
+
+  /**
+   * Returns the effective level for a namespace.
+   * @param ns - The namespace, or undefined for the root logger
+   * @returns The matching override or the default level
+   */
+  resolve(ns: string | undefined): LogLevel {
+    const key = ns ?? '';
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    let level = this.defaultLevel;
+    let best = -1;
+    for (const [pattern, value] of this.overrides) {
+      const weight = pattern.replace(/\*/g, '').length;
+      if (weight >= best && matchNamespace(pattern, ns)) {
+        level = value;
+        best = weight;
+      }
+    }
+    this.cache.set(key, level);
+    return level;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Cache of compiled namespace patterns. Patterns are usually a handful of static
+ * strings from configuration, so the cache stays small.
+ */
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Tests a namespace against a DEBUG-style glob pattern. `*` matches any sequence
+ * of characters (including `:`), everything else matches literally. Records
+ * without a namespace are matched as the empty string.
+ * @param pattern - Glob pattern such as `api:*` or `auth:login`
+ * @param ns - The namespace to test
+ * @returns True if the namespace matches the pattern
+ */
+export function matchNamespace(pattern: string, ns: string | undefined): boolean {
+  let re = compiled.get(pattern);
+  if (!re) {
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    re = new RegExp(`^${source}$`);
+    compiled.set(pattern, re);
+  }
+  return re.test(ns ?? '');
+}
@@ -1,44 +1,88 @@
+/**
+ * What a full queue does with a new item:
+ * - `drop-oldest`: drops the oldest queued item
+ * - `drop-newest`: drops the new item
+ * - `drop-below-level`: drops the oldest low-priority item (see `isLow`), or
+ *   the new item if it is low itself, and falls back to the oldest item
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'drop-below-level';
+
+/**
+ * Bounds and overflow handling for `AsyncBatchQueue`.
+ */
+export interface BatchQueueOptions<T> {
+  /** Maximum items waiting in the queue. Unbounded by default. */
+  maxSize?: number;
+  /** What to drop when the queue is full. Defaults to `drop-oldest`. */
+  overflow?: OverflowPolicy;
+  /** Marks items the `drop-below-level` policy drops first */
+  isLow?: (item: T) => boolean;
+  /** Called for every dropped item */
+  onDrop?: (item: T) => void;
+  /**
+   * Called once the queue has room again after dropping items, with the number
+   * dropped since the last call. A returned item (e.g. a summary) is queued.
+   */
+  onRecover?: (dropped: number) => T | void;
+}
+
 /**
  * A simple asynchronous batching queue. Items pushed onto the queue are stored
  * until the batch reaches the configured size or the specified interval passes.
  * When a flush occurs, all queued items are passed to the provided flush
- * function. If a flush is in progress, additional flushes are skipped until
- * completion.
+ * function. Items pushed while a flush is in progress are sent by a follow-up
+ * flush as soon as it completes, and `flush()` resolves only after them.
+ * With `maxSize`, a full queue drops items according to the overflow policy.
  */
 export class AsyncBatchQueue<T> {
   private buffer: T[] = [];
   private timer: ReturnType<typeof setTimeout> | null = null;
-  private flushing = false;
+  private inFlight: Promise<void> | null = null;
+  private again = false;
+  private droppedSinceRecover = 0;
+  /** Total number of items dropped because the queue was full */
+  dropped = 0;
 
   /**
    * Creates a new batch queue.
    * @param batchSize - Maximum items per batch
    * @param intervalMs - Maximum time in milliseconds to wait before flushing
    * @param flushFn - Function called with batched items
+   * @param opts - Size bound and overflow policy
    */
   constructor(
     private readonly batchSize: number,
     private readonly intervalMs: number,
-    private readonly flushFn: (items: T[]) => Promise<void> | void
+    private readonly flushFn: (items: T[]) => Promise<void> | void,
+    private readonly opts: BatchQueueOptions<T> = {}
   ) {}
 
+  /** Number of items waiting to be flushed */
+  get size(): number {
+    return this.buffer.length;
+  }
+
   /**
    * Adds an item to the queue. Triggers flush if batch size is reached.
+   * When the queue is full, an item is dropped according to the overflow policy.
    * @param item - The item to add
    */
   push(item: T): void {
+    const { maxSize } = this.opts;
+    if (maxSize !== undefined && this.buffer.length >= maxSize) {
+      if (!this.makeRoom(item)) return;
+    }
     this.buffer.push(item);
     if (this.buffer.length >= this.batchSize) {
-      this.flush();
+      this.flush().catch(() => undefined);
       return;
     }
-    if (!this.timer) {
-      this.timer = setTimeout(() => this.flush(), this.intervalMs);
-    }
+    this.schedule();
   }
 
   /**
-   * Immediately flushes all queued items to the flush function.
+   * Immediately flushes all queued items to the flush function. If a flush is
+   * in progress, resolves after it and a follow-up flush of newer items.
    * @returns A promise that resolves when flushing is complete
    */
   async flush(): Promise<void> {
@@ -46,15 +90,65 @@ export class AsyncBatchQueue<T> {
       clearTimeout(this.timer);
       this.timer = null;
     }
-    // avoid concurrent flushes
-    if (this.flushing) return;
+    if (this.inFlight) {
+      this.again = true;
+      return this.inFlight;
+    }
     if (this.buffer.length === 0) return;
-    this.flushing = true;
-    const items = this.buffer.splice(0, this.buffer.length);
+    this.inFlight = this.drain();
     try {
-      await this.flushFn(items);
+      await this.inFlight;
     } finally {
-      this.flushing = false;
+      this.inFlight = null;
+      this.recover();
+      if (this.buffer.length > 0) this.schedule();
     }
   }
-}
\ No newline at end of file
+
+  private async drain(): Promise<void> {
+    do {
+      this.again = false;
+      const items = this.buffer.splice(0, this.buffer.length);
+      await this.flushFn(items);
+      // a follow-up flush for items pushed meanwhile: requested, or a full batch is waiting
+    } while (this.buffer.length > 0 && (this.again || this.buffer.length >= this.batchSize));
+  }
+
+  private schedule(): void {
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush().catch(() => undefined);
+      }, this.intervalMs);
+    }
+  }
+
+  /**
+   * Drops an item to make room for a new one.
+   * @returns False if the new item itself was dropped
+   */
+  private makeRoom(item: T): boolean {
+    const { overflow = 'drop-oldest', isLow } = this.opts;
+    let index = 0;
+    if (overflow === 'drop-newest') {
+      index = -1;
+    } else if (overflow === 'drop-below-level' && isLow) {
+      index = this.buffer.findIndex(isLow);
+      if (index === -1) index = isLow(item) ? -1 : 0;
+    }
+    const victim = index === -1 ? item : this.buffer.splice(index, 1)[0];
+    this.dropped++;
+    this.droppedSinceRecover++;
+    this.opts.onDrop?.(victim);
+    return index !== -1;
+  }
+
+  private recover(): void {
+    const { maxSize, onRecover } = this.opts;
+    if (this.droppedSinceRecover === 0 || (maxSize !== undefined && this.buffer.length >= maxSize)) return;
+    const dropped = this.droppedSinceRecover;
+    this.droppedSinceRecover = 0;
+    const summary = onRecover?.(dropped);
+    if (summary !== undefined) this.push(summary);
+  }
+}
@@ -1,7 +1,11 @@
+import { LogLevel, LogRecord } from '../types';
+import { levelAtLeast } from './levels';
+
 /**
- * Creates a simple token bucket rate limiter. It allows up to `maxPerMin` logs
+ * Creates a simple fixed-window rate limiter. It allows up to `maxPerMin` logs
  * per minute. When the limit is reached, subsequent logs are dropped until the
- * next minute window.
+ * next minute window. The logger's `rateLimit` option uses the token bucket of
+ * `makeTokenBucketLimiter` instead.
  * @param maxPerMin - Maximum number of logs allowed per minute
  * @returns A function that returns true if the log should be allowed
  */
@@ -18,4 +22,177 @@ export function makeRateLimiter(maxPerMin: number): () => boolean {
     count += 1;
     return count <= maxPerMin;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Token-bucket rate limit configuration.
+ */
+export interface RateLimitOptions {
+  /** Sustained rate: tokens refilled per minute into each bucket */
+  maxPerMin: number;
+  /** Bucket size, i.e. records allowed at once after a quiet period.  Defaults to `maxPerMin`. */
+  burst?: number;
+  /**
+   * What gets its own bucket: one `global` bucket (the default), one per
+   * `namespace`, per `level`, or per `message` fingerprint (level, namespace
+   * and message with numbers masked), or a custom key function.
+   */
+  key?: 'global' | 'namespace' | 'level' | 'message' | ((record: LogRecord) => string);
+  /** Levels that are never limited.  Defaults to `['error', 'fatal']`. */
+  exempt?: LogLevel[];
+  /**
+   * A suppression window is summarised when its bucket admits a record again,
+   * on flush, or at the latest after this many milliseconds.  Defaults to 60 seconds.
+   */
+  summaryIntervalMs?: number;
+}
+
+/**
+ * A keyed token-bucket limiter created by `makeTokenBucketLimiter`.
+ */
+export interface RateLimiter {
+  /**
+   * Takes a token from the record's bucket.
+   * @returns False if the record is suppressed
+   */
+  allow(record: LogRecord): boolean;
+  /**
+   * Returns "suppressed N similar messages" records for closed suppression
+   * windows; with `flush`, for all open windows too.
+   */
+  summaries(flush?: boolean): LogRecord[];
+  /** Earliest time an open suppression window may be due for its summary, if any */
+  nextCloseAt(): number | undefined;
+}
+
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+  window?: SuppressionWindow;
+}
+
+interface SuppressionWindow {
+  key: string;
+  count: number;
+  firstTs: number;
+  lastTs: number;
+  level: LogLevel;
+  sample: LogRecord;
+}
+
+// upper bound on buckets tracked at once; the least recently used one is evicted
+const MAX_BUCKETS = 1000;
+
+/**
+ * Fingerprints a record for per-message limits: level, namespace and message,
+ * with numbers and hex IDs masked so "retry 3 of 5" and "retry 4 of 5" match.
+ * @param record - The record
+ * @returns The fingerprint
+ */
+export function fingerprint(record: LogRecord): string {
+  const msg = record.msg.replace(/\b(?:0x)?[0-9a-f]*\d[0-9a-f]*\b/gi, '#');
+  return `${record.level}|${record.ns ?? ''}|${msg}`;
+}
+
+/**
+ * Creates a token-bucket rate limiter. Each bucket holds up to `burst` tokens
+ * and refills at `maxPerMin`; a record takes one token or is suppressed. Error
+ * and fatal records are exempt by default. Suppressed records are counted per
+ * bucket and reported as one summary record per suppression window.
+ * @param opts - Rate, burst, bucket key and exemptions
+ * @returns The limiter
+ *
+ * @example
+ * ```typescript
+ * const limiter = makeTokenBucketLimiter({ maxPerMin: 60, burst: 20, key: 'namespace' });
+ * if (limiter.allow(record)) write(record);
+ * ```
+ */
+export function makeTokenBucketLimiter(opts: RateLimitOptions): RateLimiter {
+  const burst = opts.burst ?? opts.maxPerMin;
+  const perMs = opts.maxPerMin / 60_000;
+  const exempt = new Set<LogLevel>(opts.exempt ?? ['error', 'fatal']);
+  const summaryIntervalMs = opts.summaryIntervalMs ?? 60_000;
+  const keyOf = typeof opts.key === 'function'
+    ? opts.key
+    : opts.key === 'namespace' ? (rec: LogRecord) => rec.ns ?? ''
+      : opts.key === 'level' ? (rec: LogRecord) => rec.level
+        : opts.key === 'message' ? fingerprint
+          : () => '';
+  const buckets = new Map<string, Bucket>();
+  let closed: SuppressionWindow[] = [];
+  // no open window is due before this; may be early once windows close on admit
+  let due = Infinity;
+
+  const toRecord = (w: SuppressionWindow): LogRecord => ({
+    ts: Date.now(),
+    level: w.level,
+    msg: `Suppressed ${w.count} similar ${w.count === 1 ? 'message' : 'messages'}`,
+    ns: w.sample.ns,
+    ctx: { suppressed: w.count, key: w.key, firstTs: w.firstTs, lastTs: w.lastTs, sample: w.sample.msg },
+    correlationId: w.sample.correlationId,
+    device: w.sample.device
+  });
+
+  return {
+    allow(record) {
+      if (exempt.has(record.level)) return true;
+      const key = keyOf(record);
+      const now = Date.now();
+      let bucket = buckets.get(key);
+      if (bucket) {
+        // keep the map in least recently used order
+        buckets.delete(key);
+        bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.refilledAt) * perMs);
+        bucket.refilledAt = now;
+      } else {
+        if (buckets.size >= MAX_BUCKETS) {
+          const [oldestKey, oldest] = buckets.entries().next().value as [string, Bucket];
+          if (oldest.window) closed.push(oldest.window);
+          buckets.delete(oldestKey);
+        }
+        bucket = { tokens: burst, refilledAt: now };
+      }
+      buckets.set(key, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        if (bucket.window) {
+          closed.push(bucket.window);
+          bucket.window = undefined;
+        }
+        return true;
+      }
+      if (!bucket.window) {
+        bucket.window = { key, count: 0, firstTs: record.ts, lastTs: record.ts, level: record.level, sample: record };
+        due = Math.min(due, record.ts + summaryIntervalMs);
+      }
+      const w = bucket.window;
+      w.count++;
+      w.lastTs = record.ts;
+      if (levelAtLeast(record.level, w.level)) w.level = record.level;
+      return false;
+    },
+    summaries(flush = false) {
+      const now = Date.now();
+      // scan the buckets only when a window may be due, not on every record
+      if (flush || now >= due) {
+        due = Infinity;
+        for (const bucket of buckets.values()) {
+          if (!bucket.window) continue;
+          if (flush || now - bucket.window.firstTs >= summaryIntervalMs) {
+            closed.push(bucket.window);
+            bucket.window = undefined;
+          } else {
+            due = Math.min(due, bucket.window.firstTs + summaryIntervalMs);
+          }
+        }
+      }
+      const done = closed;
+      closed = [];
+      return done.map(toRecord);
+    },
+    nextCloseAt() {
+      return due === Infinity ? undefined : due;
+    }
+  };
+}
@@ -0,0 +1,148 @@
+import { isError, serializeError } from './errorSerializer';
+
+/**
+ * What a path rule does with the selected value:
+ * - `remove`: deletes the key (or array element)
+ * - `mask`: replaces the value with `[REDACTED]`
+ * - `hash`: replaces the value with a salted hash, see `ReplacementStyle`
+ * - `partial`: keeps the last 4 letters or digits, e.g. `****1234`
+ * - `truncate`: cuts strings to 8 characters, or `{ truncate: n }` to n
+ */
+export type PathAction = 'remove' | 'mask' | 'hash' | 'partial' | 'truncate' | { truncate: number };
+
+// one segment of a selector: a key, `*` (any key or index), `[*]` (any index) or `[n]`
+type Segment = string | { index: number | '*' } | { any: true };
+
+/** A compiled path selector */
+export interface PathSelector {
+  source: string;
+  segments: Segment[];
+}
+
+/** A concrete location in a record: the root (`ctx`/`device`/`err`) followed by keys and indexes */
+export type ValuePath = (string | number)[];
+
+// values path selectors descend into; Errors are serialized first, Dates, Maps and Sets are leaves
+function container(value: unknown): object | undefined {
+  if (!value || typeof value !== 'object' || value instanceof Date || value instanceof Map || value instanceof Set) {
+    return undefined;
+  }
+  return isError(value) ? serializeError(value) : value;
+}
+
+const VALID = /^(ctx|device|err)(\.[^.[\]]+|\[(\*|\d+)\])+$/;
+const TOKEN = /([^.[\]]+)|\[(\*|\d+)\]/g;
+
+/**
+ * Parses a selector such as `ctx.user.*.ssn` or `ctx.items[*].cardNumber`.
+ * Selectors start with `ctx`, `device` or `err`.
+ * @param source - The selector
+ * @returns The compiled selector
+ * @throws If the selector is malformed or has another root
+ */
+export function parsePath(source: string): PathSelector {
+  if (!VALID.test(source)) {
+    throw new Error(`Invalid redaction path "${source}"; paths look like ctx.user.*.ssn or ctx.items[*].cardNumber`);
+  }
+  const segments: Segment[] = [];
+  let match: RegExpExecArray | null;
+  TOKEN.lastIndex = 0;
+  while ((match = TOKEN.exec(source))) {
+    if (match[1] !== undefined) {
+      segments.push(match[1] === '*' ? { any: true } : match[1]);
+    } else {
+      segments.push({ index: match[2] === '*' ? '*' : Number(match[2]) });
+    }
+  }
+  return { source, segments };
+}
+
+function segmentMatches(segment: Segment, key: string | number): boolean {
+  if (typeof segment === 'string') return segment === key;
+  if ('any' in segment) return true;
+  return typeof key === 'number' && (segment.index === '*' || segment.index === key);
+}
+
+/**
+ * Tests whether a selector selects exactly this path.
+ */
+export function pathMatches(selector: PathSelector, path: ValuePath): boolean {
+  return selector.segments.length === path.length && selector.segments.every((segment, i) => segmentMatches(segment, path[i]));
+}
+
+/**
+ * Tests whether a selector may select something below this path.
+ */
+export function pathLeadsTo(selector: PathSelector, path: ValuePath): boolean {
+  return selector.segments.length > path.length && path.every((key, i) => segmentMatches(selector.segments[i], key));
+}
+
+/**
+ * Applies path rules to a value tree. The first rule selecting a location
+ * wins; branches no rule can reach are returned as they are.
+ * @param value - `ctx`, `device` or `err`
+ * @param path - Location of `value`, e.g. `['ctx']`
+ * @param rules - Selectors with the action to apply
+ * @param act - Applies an action other than `remove` to a value
+ * @returns The new value
+ */
+export function applyPathRules(
+  value: unknown,
+  path: ValuePath,
+  rules: [PathSelector, PathAction][],
+  act: (value: unknown, action: PathAction) => unknown
+): unknown {
+  if (!rules.some(([selector]) => pathLeadsTo(selector, path))) return value;
+  const walked = container(value);
+  if (!walked) return value;
+  const visit = (key: string | number, child: unknown): { keep: boolean; value?: unknown } => {
+    const childPath = [...path, key];
+    const rule = rules.find(([selector]) => pathMatches(selector, childPath));
+    if (!rule) return { keep: true, value: applyPathRules(child, childPath, rules, act) };
+    if (rule[1] === 'remove') return { keep: false };
+    return { keep: true, value: act(child, rule[1]) };
+  };
+  if (Array.isArray(walked)) {
+    const out: unknown[] = [];
+    walked.forEach((child, i) => {
+      const result = visit(i, child);
+      if (result.keep) out.push(result.value);
+    });
+    return out;
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(walked)) {
+    const result = visit(key, child);
+    if (result.keep) out[key] = result.value;
+  }
+  return out;
+}
+
+/**
+ * Keeps only the locations selected by the allowlist (with everything below
+ * them) and the containers leading to them.
+ * @param value - `ctx`, `device` or `err`
+ * @param path - Location of `value`, e.g. `['ctx']`
+ * @param allow - Allowed selectors
+ * @returns The filtered value, or undefined when nothing is allowed
+ */
+export function applyAllowlist(value: unknown, path: ValuePath, allow: PathSelector[]): unknown {
+  const walked = container(value);
+  if (!walked) return undefined;
+  const visit = (key: string | number, child: unknown): unknown => {
+    const childPath = [...path, key];
+    if (allow.some(selector => pathMatches(selector, childPath))) return child;
+    if (!allow.some(selector => pathLeadsTo(selector, childPath))) return undefined;
+    return applyAllowlist(child, childPath, allow);
+  };
+  if (Array.isArray(walked)) {
+    const out = walked.map((child, i) => visit(i, child)).filter(child => child !== undefined);
+    return out.length > 0 ? out : undefined;
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(walked)) {
+    const kept = visit(key, child);
+    if (kept !== undefined) out[key] = kept;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
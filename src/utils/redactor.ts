@@ -1,4 +1,7 @@
-import { LogRecord, Redactor } from '../types';
+import { LogRecord, Redactor, SerializedError } from '../types';
+import { BUILTIN_DETECTORS, DetectorName, ReplacementStyle, ValueDetector, makeReplacer, makeScrubber } from './detectors';
+import { PathAction, PathSelector, ValuePath, applyAllowlist, applyPathRules, parsePath, pathLeadsTo, pathMatches } from './redactionPaths';
+import { isError, serializeError } from './errorSerializer';
 
 /**
  * Default keys that should never be logged in plain text. Keys are lowercased before
@@ -8,35 +11,231 @@ const DEFAULT_SENSITIVE_KEYS = [
   'password', 'pass', 'token', 'authorization', 'secret', 'otp', 'pin', 'creditcard', 'sessionid'
 ];
 
+// always kept by the allowlist: without them a record no longer describes its error
+const ERROR_FIELDS = ['name', 'message', 'stack', 'code'];
+
+// nesting below this depth is replaced by `[Object]` / `[Array]`
+const MAX_DEPTH = 32;
+
+/**
+ * Options for `makeRedactor`.
+ */
+export interface RedactorOptions {
+  /** Keys redacted in `ctx` and `err` in addition to the built-in list */
+  keys?: string[];
+  /**
+   * Set to false to drop the built-in key list (`password`, `pin`, ...), e.g.
+   * when `paths` target the sensitive values precisely. Defaults to true.
+   */
+  defaultKeys?: boolean;
+  /**
+   * Actions for values selected by path, e.g. `{ 'ctx.user.*.ssn': 'remove' }`.
+   * Paths start with `ctx`, `device` or `err`; `*` matches any key or index and
+   * `[*]` any array index. The first matching path wins.
+   */
+  paths?: Record<string, PathAction>;
+  /**
+   * Strict allowlist: only these paths (and everything below them) survive in
+   * `ctx`, `device` and `err`; all other values are dropped. Applied before
+   * `paths`. The name, message, stack and code of an error and its causes are
+   * always kept; its custom properties need a path such as `err.status`.
+   */
+  allowlist?: string[];
+  /**
+   * Detectors for sensitive values inside strings, applied to `msg` and every
+   * string in `ctx`, `device` and `err`. Built-in
+   * detectors are given by name: `email`, `pan` (card numbers passing a Luhn
+   * check), `jwt`, `bearer`, `iban` and `phone`.
+   */
+  detectors?: (DetectorName | ValueDetector)[];
+  /** How detected values are replaced. Defaults to `mask`. */
+  replacement?: ReplacementStyle;
+  /**
+   * Salt for the `hash` replacement, required when it is used. Use an app
+   * secret so hashes cannot be reversed by guessing.
+   */
+  salt?: string;
+}
+
+function isSerializedError(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' &&
+    typeof (value as SerializedError).name === 'string' && typeof (value as SerializedError).message === 'string';
+}
+
 /**
  * Creates a redactor function. The returned function traverses the `ctx` object
+ * and the serialized `err` (custom properties and the cause chain included)
  * recursively and replaces values of sensitive keys with `[REDACTED]`. Extra keys
- * passed as arguments are merged with the built‑in list.
- * @param extraKeys - Additional keys to redact
+ * passed as arguments are merged with the built‑in list. Maps and Sets are
+ * walked as well, Errors are serialized first, Dates are kept as they are and
+ * circular references become `[Circular]`, so the result is still safe for
+ * `makeSerializer`.
+ *
+ * With an options object, value `detectors` additionally scrub sensitive values
+ * wherever they appear in strings, e.g. a card number inside `msg` or an email
+ * under a key called `note`.
+ *
+ * `paths` select values precisely (`ctx.user.*.ssn`, `ctx.items[*].cardNumber`)
+ * and remove, mask, hash, partially mask or truncate them; unlike key names
+ * they do not hit unrelated fields such as `ctx.pin.enabled`. `allowlist`
+ * switches to a strict mode where only declared paths are logged.
+ *
+ * @param extraKeys - Additional keys to redact, or the redactor options
  * @returns A redactor function
+ *
+ * @example
+ * ```typescript
+ * makeRedactor({
+ *   keys: ['ssn'],
+ *   detectors: ['email', 'pan', 'jwt', 'bearer', 'iban', 'phone'],
+ *   replacement: 'partial' // "card 4111 1111 1111 1111" -> "card ****1111"
+ * });
+ *
+ * makeRedactor({
+ *   defaultKeys: false,
+ *   paths: {
+ *     'ctx.user.*.ssn': 'remove',
+ *     'ctx.headers.authorization': 'mask',
+ *     'ctx.items[*].cardNumber': 'partial',
+ *     'ctx.user.email': 'hash'
+ *   },
+ *   salt: APP_LOG_SALT
+ * });
+ * ```
  */
-export function makeRedactor(extraKeys: string[] = []): Redactor {
+export function makeRedactor(extraKeys?: string[]): Redactor;
+export function makeRedactor(opts: RedactorOptions): Redactor;
+export function makeRedactor(extraKeysOrOpts: string[] | RedactorOptions = []): Redactor {
+  const opts: RedactorOptions = Array.isArray(extraKeysOrOpts) ? { keys: extraKeysOrOpts } : extraKeysOrOpts;
   const keys = new Set(
-    [...DEFAULT_SENSITIVE_KEYS, ...extraKeys].map(k => k.toLowerCase())
+    [...(opts.defaultKeys === false ? [] : DEFAULT_SENSITIVE_KEYS), ...(opts.keys ?? [])].map(k => k.toLowerCase())
   );
-  const redactValue = (value: unknown): unknown => {
-    if (Array.isArray(value)) {
-      return value.map(redactValue);
+  const detectors = (opts.detectors ?? []).map(d => (typeof d === 'string' ? BUILTIN_DETECTORS[d] : d));
+  const hashes = opts.replacement === 'hash' || detectors.some(d => d.replacement === 'hash') ||
+    Object.values(opts.paths ?? {}).includes('hash');
+  // an unsalted hash of an email or phone number is reversed with a dictionary
+  if (hashes && !opts.salt) {
+    throw new Error('makeRedactor hash replacement requires a salt');
+  }
+  const replace = makeReplacer(opts.salt ?? '');
+  const scrub = detectors.length > 0
+    ? makeScrubber(detectors, opts.replacement ?? 'mask', replace)
+    : undefined;
+  const rules: [PathSelector, PathAction][] = Object.keys(opts.paths ?? {}).map(path => [parsePath(path), opts.paths![path]]);
+  const allow = opts.allowlist?.map(parsePath);
+
+  const act = (value: unknown, action: PathAction): unknown => {
+    if (typeof action === 'object' || action === 'truncate') {
+      const length = typeof action === 'object' ? action.truncate : 8;
+      return typeof value === 'string' && value.length > length ? `${value.slice(0, length)}…` : value;
+    }
+    if (action === 'mask') return '[REDACTED]';
+    const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+    return replace(text, action === 'hash' ? 'hash' : 'partial', 'path');
+  };
+
+  const allowed = (path: ValuePath): boolean => allow!.some(selector => pathMatches(selector, path));
+
+  // the allowlist on a serialized error (or a cause or aggregate member): error fields
+  // stay, custom properties and non-error causes only when a path allows them
+  const allowError = (err: Record<string, unknown>, path: ValuePath): Record<string, unknown> => {
+    const out = (applyAllowlist(err, path, allow!) ?? {}) as Record<string, unknown>;
+    for (const key of ERROR_FIELDS) {
+      if (err[key] !== undefined) out[key] = err[key];
+    }
+    if (isSerializedError(err.cause) && !allowed([...path, 'cause'])) {
+      out.cause = allowError(err.cause, [...path, 'cause']);
+    }
+    if (Array.isArray(err.errors) && !allowed([...path, 'errors'])) {
+      out.errors = err.errors
+        .map((member, i) => {
+          const memberPath = [...path, 'errors', i];
+          if (allowed(memberPath)) return member;
+          return isSerializedError(member) ? allowError(member, memberPath) : applyAllowlist(member, memberPath, allow!);
+        })
+        .filter(member => member !== undefined);
+    }
+    return out;
+  };
+
+  // allowlist, then path rules, on `ctx`, `device` or `err`
+  const select = (value: Record<string, unknown> | undefined, root: 'ctx' | 'device' | 'err'): Record<string, unknown> | undefined => {
+    if (!value) return value;
+    if (allow) {
+      value = root === 'err' ? allowError(value, [root]) : applyAllowlist(value, [root], allow) as Record<string, unknown> | undefined;
+    }
+    if (rules.length > 0) value = applyPathRules(value, [root], rules, act) as Record<string, unknown> | undefined;
+    return value;
+  };
+  const structural = !!allow || rules.length > 0;
+
+  // a path rule takes precedence over the key list, e.g. `ctx.headers.authorization: 'partial'`;
+  // a rule below an object, e.g. `ctx.pin.code`, keeps the key list from masking all of `ctx.pin`
+  const ruled = (path: ValuePath, value: unknown): boolean => rules.some(([selector]) =>
+    pathMatches(selector, path) || (!!value && typeof value === 'object' && pathLeadsTo(selector, path)));
+
+  const redactKey = (k: string, path: ValuePath, byKey: boolean, value: unknown): boolean =>
+    byKey && keys.has(k.toLowerCase()) && !(rules.length > 0 && ruled(path, value));
+
+  // walks arrays, objects, Maps and Sets, copying only what it changes the shape of;
+  // `ancestors` holds the objects on the current branch to catch cycles
+  const redactValue = (value: unknown, byKey: boolean, path: ValuePath = [], ancestors = new Set<unknown>()): unknown => {
+    if (typeof value === 'string') {
+      return scrub ? scrub(value) : value;
     }
-    if (value && typeof value === 'object') {
+    if (!value || typeof value !== 'object' || value instanceof Date) return value;
+    if (ancestors.has(value)) return '[Circular]';
+    if (ancestors.size >= MAX_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+    ancestors.add(value);
+    try {
+      const child = (v: unknown, key: string | number): unknown =>
+        redactValue(v, byKey, rules.length > 0 ? [...path, key] : path, ancestors);
+      if (isError(value)) {
+        // custom properties of errors (e.g. a request config) may hold secrets
+        return redactValue(serializeError(value), byKey, path, ancestors);
+      }
+      if (Array.isArray(value)) {
+        return value.map(child);
+      }
+      if (value instanceof Set) {
+        return new Set(Array.from(value, child));
+      }
+      if (value instanceof Map) {
+        const map = new Map<unknown, unknown>();
+        for (const [k, v] of value) {
+          const key = String(k);
+          map.set(k, redactKey(key, rules.length > 0 ? [...path, key] : path, byKey, v) ? '[REDACTED]' : child(v, key));
+        }
+        return map;
+      }
       const obj: Record<string, unknown> = {};
       for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
-        obj[k] = keys.has(k.toLowerCase()) ? '[REDACTED]' : redactValue(v);
+        obj[k] = redactKey(k, rules.length > 0 ? [...path, k] : path, byKey, v) ? '[REDACTED]' : child(v, k);
       }
       return obj;
+    } finally {
+      ancestors.delete(value);
     }
-    return value;
   };
   return (record: LogRecord): LogRecord => {
-    if (!record.ctx) return record;
-    return {
-      ...record,
-      ctx: redactValue(record.ctx) as Record<string, unknown>
-    };
+    if (!scrub && !structural) {
+      if (!record.ctx && !record.err) return record;
+      const fast: LogRecord = { ...record };
+      if (record.ctx) fast.ctx = redactValue(record.ctx, true) as Record<string, unknown>;
+      if (record.err) fast.err = redactValue(record.err, true) as SerializedError;
+      return fast;
+    }
+    const out: LogRecord = { ...record, msg: scrub ? scrub(record.msg) : record.msg };
+    const ctx = structural ? select(record.ctx, 'ctx') : record.ctx;
+    const device = structural ? select(record.device, 'device') : record.device;
+    out.ctx = ctx && (redactValue(ctx, true, ['ctx']) as Record<string, unknown>);
+    out.device = device && (redactValue(device, false, ['device']) as Record<string, unknown>);
+    // custom properties of errors (request configs, responses) are redacted like ctx
+    const err = structural ? select(record.err, 'err') : record.err;
+    out.err = err && (redactValue(err, true, ['err']) as SerializedError);
+    if (out.ctx === undefined) delete out.ctx;
+    if (out.device === undefined) delete out.device;
+    if (out.err === undefined) delete out.err;
+    return out;
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+import { LogRecord, Serializer, SerializerOptions } from '../types';
+import { isError, serializeError } from './errorSerializer';
+
+const DEFAULTS: Required<SerializerOptions> = {
+  maxDepth: 10,
+  maxArrayLength: 100,
+  maxStringLength: 8192,
+  maxBytes: 64 * 1024
+};
+
+interface State {
+  opts: Required<SerializerOptions>;
+  ancestors: Set<unknown>;
+  truncated: boolean;
+}
+
+/**
+ * Returns a copy of the record that is safe to pass to `JSON.stringify`. Circular
+ * references become `[Circular]`, BigInts become strings, Maps become objects,
+ * Sets become arrays, Dates become ISO strings and Errors are serialized with
+ * `serializeError`. Depth, array length and string length are capped; when
+ * anything is cut the returned record has `truncated: true`.
+ * @param record - The record to normalize
+ * @param opts - Optional limits
+ * @returns A JSON-safe record
+ */
+export function normalizeRecord(record: LogRecord, opts: SerializerOptions = {}): LogRecord {
+  const state: State = { opts: { ...DEFAULTS, ...opts }, ancestors: new Set(), truncated: false };
+  const out: LogRecord = { ...record, msg: normalizeString(String(record.msg), state) };
+  if (record.ctx !== undefined) out.ctx = normalize(record.ctx, 0, state) as Record<string, unknown>;
+  if (record.device !== undefined) out.device = normalize(record.device, 0, state) as Record<string, unknown>;
+  if (record.err !== undefined) out.err = normalize(record.err, 0, state) as LogRecord['err'];
+  if (state.truncated) out.truncated = true;
+  return out;
+}
+
+/**
+ * Creates a serializer that turns a record into one JSON string without ever
+ * throwing. Records are normalized with `normalizeRecord`; if the result is still
+ * larger than `maxBytes`, `ctx`, `device` and `err` are dropped in that order and
+ * finally `msg` is shortened until it fits.
+ * @param opts - Optional limits
+ * @returns A serializer function
+ */
+export function makeSerializer(opts: SerializerOptions = {}): Serializer {
+  const maxBytes = opts.maxBytes ?? DEFAULTS.maxBytes;
+  return (record: LogRecord): string => {
+    let out = normalizeRecord(record, opts);
+    let json = JSON.stringify(out);
+    for (const key of ['ctx', 'device', 'err'] as const) {
+      if (byteLength(json) <= maxBytes) return json;
+      if (out[key] === undefined) continue;
+      out = { ...out, [key]: undefined, truncated: true };
+      json = JSON.stringify(out);
+    }
+    while (byteLength(json) > maxBytes && out.msg.length > 0) {
+      const excess = byteLength(json) - maxBytes;
+      out = { ...out, msg: out.msg.slice(0, Math.max(0, out.msg.length - excess - 1)), truncated: true };
+      json = JSON.stringify(out);
+    }
+    return json;
+  };
+}
+
+function normalizeString(value: string, state: State): string {
+  if (value.length <= state.opts.maxStringLength) return value;
+  state.truncated = true;
+  return `${value.slice(0, state.opts.maxStringLength)}…`;
+}
+
+function normalize(value: unknown, depth: number, state: State): unknown {
+  switch (typeof value) {
+    case 'string':
+      return normalizeString(value, state);
+    case 'bigint':
+      return String(value);
+    case 'symbol':
+      return value.toString();
+    case 'function':
+      return `[Function ${value.name || 'anonymous'}]`;
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+  if (value === null) return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+  if (state.ancestors.has(value)) return '[Circular]';
+  if (depth >= state.opts.maxDepth) {
+    state.truncated = true;
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+  state.ancestors.add(value);
+  try {
+    if (isError(value)) {
+      return normalize(serializeError(value), depth, state);
+    }
+    if (Array.isArray(value)) {
+      return normalizeList(value, depth, state);
+    }
+    if (value instanceof Set) {
+      return normalizeList(Array.from(value), depth, state);
+    }
+    if (value instanceof Map) {
+      const entries = limit(Array.from(value.entries()), state);
+      const obj: Record<string, unknown> = {};
+      for (const [k, v] of entries) {
+        obj[String(k)] = normalize(v, depth + 1, state);
+      }
+      return obj;
+    }
+    const toJSON = (value as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === 'function') {
+      return normalize(toJSON.call(value), depth, state);
+    }
+    const obj: Record<string, unknown> = {};
+    for (const key of Object.keys(value as object)) {
+      obj[key] = normalize((value as Record<string, unknown>)[key], depth + 1, state);
+    }
+    return obj;
+  } catch (err) {
+    // getters or toJSON implementations may throw; never let that lose the record
+    return '[Unserializable]';
+  } finally {
+    state.ancestors.delete(value);
+  }
+}
+
+function normalizeList(list: unknown[], depth: number, state: State): unknown[] {
+  return limit(list, state).map(item => normalize(item, depth + 1, state));
+}
+
+function limit<T>(list: T[], state: State): T[] {
+  if (list.length <= state.opts.maxArrayLength) return list;
+  state.truncated = true;
+  return list.slice(0, state.opts.maxArrayLength);
+}
+
+/**
+ * Returns the UTF-8 encoded length of a string without relying on TextEncoder.
+ * @param str - The string to measure
+ * @returns Length in bytes
+ */
+export function byteLength(str: string): number {
+  let bytes = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
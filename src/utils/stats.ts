@@ -0,0 +1,122 @@
+import { LogLevel } from '../types';
+
+/**
+ * What happened to the records of one level or namespace before queueing.
+ */
+export interface RecordCounters {
+  /** Records queued for the transports */
+  accepted: number;
+  /** Records below the level threshold (including those kept by `flushOnError`) */
+  filtered: number;
+  /** Records dropped by sampling */
+  sampledOut: number;
+  /** Records dropped by the rate limiter */
+  rateLimited: number;
+  /** Duplicates collapsed by `dedupe` */
+  deduplicated: number;
+}
+
+/**
+ * Counters a transport keeps itself for failures it handles instead of
+ * throwing, returned by `Transport.stats`.
+ */
+export interface TransportDeliveryStats {
+  /** Records in batches the transport accepted but could not write or deliver */
+  failed: number;
+  /** Records confirmed by the receiving end, for transports that deliver in the background */
+  delivered?: number;
+  /** Records the transport accepted and later discarded, e.g. evicted from a full outbox */
+  dropped?: number;
+}
+
+/**
+ * Delivery counters of one transport.
+ */
+export interface TransportStats {
+  /**
+   * Records written successfully, less those the transport reports as failed
+   * or dropped afterwards; for `HttpTransport`, delivered or still in the outbox
+   */
+  written: number;
+  /**
+   * Records in batches whose write threw, rejected or timed out, plus those
+   * the transport reports as failed through `Transport.stats`
+   */
+  failed: number;
+  /** Writes that timed out (also counted in `failed`) */
+  timedOut: number;
+  /** Records dropped because the transport queue, or the transport's own outbox, was full */
+  dropped: number;
+  /** Records not written because the circuit breaker paused the transport */
+  skipped: number;
+  /** Records waiting in the transport queue */
+  queued: number;
+  /** Records confirmed delivered, for transports that deliver in the background */
+  delivered?: number;
+  /** True while the circuit breaker pauses the transport */
+  paused: boolean;
+  /** Duration of batch writes in milliseconds */
+  latency: { count: number; avgMs: number; maxMs: number };
+}
+
+/**
+ * Snapshot returned by `Logger.getStats()`.
+ */
+export interface LoggerStats {
+  /** Time the counters started, in milliseconds since epoch */
+  since: number;
+  /** Counters over all records */
+  totals: RecordCounters;
+  /** Counters per level */
+  levels: Partial<Record<LogLevel, RecordCounters>>;
+  /** Counters per namespace; records without a namespace are counted under `(root)` */
+  namespaces: Record<string, RecordCounters>;
+  /** Counters per transport name; a repeated name gets a `#2`, `#3`... suffix */
+  transports: Record<string, TransportStats>;
+}
+
+/** Key of records without a namespace in `LoggerStats.namespaces` */
+export const ROOT_NAMESPACE = '(root)';
+
+function emptyCounters(): RecordCounters {
+  return { accepted: 0, filtered: 0, sampledOut: 0, rateLimited: 0, deduplicated: 0 };
+}
+
+/**
+ * Counts what the pipeline does with records, per level and namespace.
+ */
+export class StatsCollector {
+  readonly since = Date.now();
+  private totals = emptyCounters();
+  private levels: Partial<Record<LogLevel, RecordCounters>> = {};
+  private namespaces: Record<string, RecordCounters> = {};
+
+  /**
+   * Counts one record.
+   * @param outcome - What happened to the record
+   * @param level - Its level
+   * @param ns - Its namespace
+   */
+  count(outcome: keyof RecordCounters, level: LogLevel, ns: string | undefined): void {
+    this.totals[outcome]++;
+    (this.levels[level] ??= emptyCounters())[outcome]++;
+    (this.namespaces[ns ?? ROOT_NAMESPACE] ??= emptyCounters())[outcome]++;
+  }
+
+  /**
+   * Returns a copy of the counters.
+   * @param transports - Counters of the transports
+   * @returns The snapshot
+   */
+  snapshot(transports: Record<string, TransportStats>): LoggerStats {
+    const copy = <T extends Record<string, RecordCounters | undefined>>(counters: T): T =>
+      Object.fromEntries(Object.entries(counters).map(([key, value]) => [key, { ...value }])) as T;
+    return {
+      since: this.since,
+      totals: { ...this.totals },
+      levels: copy(this.levels),
+      namespaces: copy(this.namespaces),
+      transports
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { LogRecord } from '../types';
+
+// upper bound on distinct correlation IDs tracked at once; the oldest is evicted
+const MAX_KEYS = 50;
+
+/**
+ * In-memory ring buffer holding the most recent records that were not written
+ * (below the level threshold or sampled out). Records are kept either globally or
+ * per correlation ID, bounded by count and optionally by age, and handed back by
+ * `drain` when an error makes them worth keeping.
+ */
+export class TailBuffer {
+  private buckets = new Map<string, LogRecord[]>();
+
+  /**
+   * Creates a tail buffer.
+   * @param maxRecords - Maximum records kept per bucket
+   * @param maxAgeMs - Records older than this are discarded; unlimited if omitted
+   * @param perCorrelationId - Keep a separate bucket per correlation ID
+   */
+  constructor(
+    private readonly maxRecords: number,
+    private readonly maxAgeMs?: number,
+    private readonly perCorrelationId = false
+  ) {}
+
+  /**
+   * Adds a record, evicting the oldest ones when the bucket is full.
+   * @param record - The record to keep
+   */
+  add(record: LogRecord): void {
+    const key = this.keyFor(record.correlationId);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_KEYS) {
+        const oldest = this.buckets.keys().next().value as string;
+        this.buckets.delete(oldest);
+      }
+      bucket = [];
+      this.buckets.set(key, bucket);
+    }
+    bucket.push(record);
+    if (bucket.length > this.maxRecords) {
+      bucket.splice(0, bucket.length - this.maxRecords);
+    }
+    this.expire(bucket, record.ts);
+  }
+
+  /**
+   * Removes and returns the buffered records for a correlation ID (or all of
+   * them when buffering globally), oldest first.
+   * @param correlationId - Correlation ID of the triggering record
+   * @returns The buffered records that have not expired
+   */
+  drain(correlationId?: string): LogRecord[] {
+    const key = this.keyFor(correlationId);
+    const bucket = this.buckets.get(key);
+    if (!bucket) return [];
+    this.buckets.delete(key);
+    this.expire(bucket, Date.now());
+    return bucket;
+  }
+
+  /**
+   * Discards every buffered record.
+   */
+  clear(): void {
+    this.buckets.clear();
+  }
+
+  private keyFor(correlationId?: string): string {
+    return this.perCorrelationId ? correlationId ?? '' : '';
+  }
+
+  private expire(bucket: LogRecord[], now: number): void {
+    if (this.maxAgeMs === undefined) return;
+    const cutoff = now - this.maxAgeMs;
+    let i = 0;
+    while (i < bucket.length && bucket[i].ts < cutoff) i++;
+    if (i > 0) bucket.splice(0, i);
+  }
+}
@@ -0,0 +1,215 @@
+import { LogRecord, Transport } from '../types';
+import { AsyncBatchQueue, BatchQueueOptions } from './queue';
+import { withOriginalConsole } from '../consolePatch';
+import { reportInternal } from './debug';
+import { TransportDeliveryStats, TransportStats } from './stats';
+
+/**
+ * Pauses a transport after repeated failures.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failed writes that open the circuit.  Defaults to 5. */
+  failureThreshold?: number;
+  /** Time in milliseconds the transport is paused before a probe write.  Defaults to 30 seconds. */
+  cooldownMs?: number;
+}
+
+/**
+ * Describes a failed transport operation, passed to `onTransportError`.
+ */
+export interface TransportErrorInfo {
+  /** Name of the failing transport */
+  transport: string;
+  /** The operation that failed */
+  operation: 'write' | 'flush' | 'dispose';
+  /** Number of records in the failed batch; 0 for flush and dispose */
+  records: number;
+  /** True when the operation did not settle within `writeTimeoutMs` */
+  timedOut: boolean;
+  /** True when this failure opened (or re-opened) the circuit breaker */
+  circuitOpened: boolean;
+}
+
+/**
+ * Isolation settings shared by all lanes of a pipeline.
+ */
+export interface TransportLaneOptions {
+  /** Time after which a write, flush or dispose counts as failed */
+  writeTimeoutMs: number;
+  /** Circuit breaker settings, or false to keep writing to failing transports */
+  circuitBreaker: CircuitBreakerOptions | false;
+  /** Called for every failure */
+  onError?: (error: unknown, info: TransportErrorInfo) => void;
+}
+
+class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Transport did not respond within ${ms} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Settles with the promise, or rejects with a `TimeoutError` after `ms`.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  if (!isFinite(ms)) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new TimeoutError(ms)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      err => { clearTimeout(timer); reject(err); }
+    );
+  });
+}
+
+/**
+ * One transport with its own batch queue, write timeout and circuit breaker,
+ * so a slow or failing transport never holds up or fails the others. Errors
+ * never propagate; they are reported through `onError` and the debug channel.
+ *
+ * While the circuit is open, batches for the transport are dropped. After the
+ * cooldown the next batch is written as a probe: success closes the circuit,
+ * failure opens it for another cooldown. Only writes count towards the
+ * breaker; a slow flush (e.g. an HTTP outbox draining a backlog) is reported
+ * but never makes the lane drop batches.
+ *
+ * @internal
+ */
+export class TransportLane {
+  readonly queue: AsyncBatchQueue<LogRecord>;
+  private failures = 0;
+  private openUntil = 0;
+  private written = 0;
+  private failed = 0;
+  private timedOut = 0;
+  private skipped = 0;
+  private writes = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+
+  /**
+   * @param transport - The transport
+   * @param batchSize - Maximum records per batch
+   * @param intervalMs - Maximum time before a batch is written
+   * @param queueOptions - Bound and overflow policy of the lane's queue
+   * @param opts - Timeout, circuit breaker and error hook
+   */
+  constructor(
+    readonly transport: Transport,
+    batchSize: number,
+    intervalMs: number,
+    queueOptions: BatchQueueOptions<LogRecord>,
+    private readonly opts: TransportLaneOptions
+  ) {
+    this.queue = new AsyncBatchQueue<LogRecord>(batchSize, intervalMs, items => this.write(items), queueOptions);
+  }
+
+  /** True while the circuit breaker pauses the transport */
+  get paused(): boolean {
+    return this.openUntil > Date.now();
+  }
+
+  /**
+   * Returns the delivery counters of the transport.
+   */
+  stats(): TransportStats {
+    // failures the transport handled itself were counted as written here
+    const own = this.reported();
+    return {
+      written: Math.max(0, this.written - own.failed - (own.dropped ?? 0)),
+      failed: this.failed + own.failed,
+      timedOut: this.timedOut,
+      dropped: this.queue.dropped + (own.dropped ?? 0),
+      skipped: this.skipped,
+      queued: this.queue.size,
+      ...(own.delivered !== undefined && { delivered: own.delivered }),
+      paused: this.paused,
+      latency: { count: this.writes, avgMs: this.writes ? this.totalMs / this.writes : 0, maxMs: this.maxMs }
+    };
+  }
+
+  private reported(): TransportDeliveryStats {
+    try {
+      return this.transport.stats?.() ?? { failed: 0 };
+    } catch (err) {
+      reportInternal(`Transport "${this.transport.name}" failed to report stats`, err);
+      return { failed: 0 };
+    }
+  }
+
+  /**
+   * Queues a record for the transport.
+   */
+  push(record: LogRecord): void {
+    this.queue.push(record);
+  }
+
+  /**
+   * Writes queued records, then flushes the transport.
+   */
+  async flush(): Promise<void> {
+    await this.queue.flush();
+    if (this.transport.flush && !this.paused) {
+      await this.run('flush', 0, () => this.transport.flush!());
+    }
+  }
+
+  /**
+   * Flushes, then disposes of the transport.
+   */
+  async dispose(): Promise<void> {
+    await this.flush();
+    if (this.transport.dispose) {
+      await this.run('dispose', 0, () => this.transport.dispose!());
+    }
+  }
+
+  private async write(items: LogRecord[]): Promise<void> {
+    if (this.paused) {
+      this.skipped += items.length;
+      return;
+    }
+    // console output of a synchronous write bypasses a patched console
+    await this.run('write', items.length, () => withOriginalConsole(() => this.transport.write(items)));
+  }
+
+  /**
+   * Runs a transport operation with the timeout, recording success or failure.
+   * The operation is started synchronously so synchronous transports write
+   * before `push` returns.
+   */
+  private async run(operation: TransportErrorInfo['operation'], records: number, fn: () => void | Promise<void>): Promise<void> {
+    const start = Date.now();
+    try {
+      const result = fn();
+      if (result instanceof Promise) await withTimeout(result, this.opts.writeTimeoutMs);
+      if (operation === 'write') this.failures = 0;
+      this.written += records;
+    } catch (err) {
+      this.failed += records;
+      if (err instanceof TimeoutError) this.timedOut++;
+      this.fail(err, { transport: this.transport.name, operation, records, timedOut: err instanceof TimeoutError, circuitOpened: false });
+    }
+    if (operation === 'write') {
+      const ms = Date.now() - start;
+      this.writes++;
+      this.totalMs += ms;
+      this.maxMs = Math.max(this.maxMs, ms);
+    }
+  }
+
+  private fail(err: unknown, info: TransportErrorInfo): void {
+    const breaker = this.opts.circuitBreaker;
+    if (breaker && info.operation === 'write' && ++this.failures >= (breaker.failureThreshold ?? 5)) {
+      this.openUntil = Date.now() + (breaker.cooldownMs ?? 30000);
+      info.circuitOpened = true;
+    }
+    reportInternal(`Transport "${info.transport}" failed to ${info.operation}${info.circuitOpened ? '; circuit opened' : ''}`, err);
+    try {
+      this.opts.onError?.(err, info);
+    } catch (hookErr) {
+      reportInternal('onTransportError threw', hookErr);
+    }
+  }
+}
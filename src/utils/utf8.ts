@@ -0,0 +1,25 @@
+import { strFromU8 } from 'fflate';
+
+/**
+ * Decodes a byte range cut out of a UTF-8 file.  A character split by the start
+ * or end of the range is dropped instead of failing the decode, so ranged reads
+ * may start and stop anywhere.
+ * @param bytes - The bytes read
+ * @returns The decoded text
+ */
+export function decodeUtf8Range(bytes: Uint8Array): string {
+  let start = 0;
+  // continuation bytes (10xxxxxx) of a character that began before the range
+  while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) start++;
+  let end = bytes.length;
+  // a lead byte at most 3 bytes from the end may start a character cut by the range
+  for (let i = Math.max(start, end - 3); i < end; i++) {
+    const b = bytes[i];
+    const size = b >= 0xf0 ? 4 : b >= 0xe0 ? 3 : b >= 0xc0 ? 2 : 1;
+    if (i + size > end) {
+      end = i;
+      break;
+    }
+  }
+  return strFromU8(bytes.subarray(start, end));
+}
@@ -0,0 +1,2 @@
+/** Version of rn-structured-logger, recorded in export manifests. Keep in sync with package.json. */
+export const VERSION = '1.0.2';
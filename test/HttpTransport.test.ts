@@ -0,0 +1,171 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from '../src/Logger';
+import { HttpTransport, OutboxStorage } from '../src/transports/HttpTransport';
+import { LogRecord } from '../src/types';
+
+// Local stub server: replies with the queued responses in order, then 200
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+let server: http.Server;
+let url: string;
+let replies: StubResponse[];
+let received: LogRecord[][];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const reply = replies.shift() ?? { status: 200 };
+      setTimeout(() => {
+        if (res.destroyed) return;
+        if (reply.status < 300) received.push(JSON.parse(body));
+        res.writeHead(reply.status, reply.headers);
+        res.end();
+      }, reply.delayMs ?? 0);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  replies = [];
+  received = [];
+});
+
+const record = (msg: string): LogRecord => ({ ts: 0, level: 'info', msg });
+
+class MemoryStorage implements OutboxStorage {
+  items = new Map<string, string>();
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+}
+
+describe('HttpTransport delivery', () => {
+  test('retries 5xx responses on the next flush', async () => {
+    replies = [{ status: 503 }];
+    const transport = HttpTransport({ url, retry: { baseDelayMs: 100 } });
+    await transport.write([record('a')]);
+    expect(received).toEqual([]);
+    await transport.flush?.();
+    // still backing off
+    expect(received).toEqual([]);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await transport.flush?.();
+    expect(received).toEqual([[record('a')]]);
+  });
+
+  test('drops batches rejected with a non-retryable 4xx', async () => {
+    replies = [{ status: 400 }];
+    const transport = HttpTransport({ url, retry: { baseDelayMs: 0 } });
+    await transport.write([record('bad')]);
+    await transport.write([record('good')]);
+    await transport.flush?.();
+    expect(received).toEqual([[record('good')]]);
+  });
+
+  test('honours Retry-After', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '120' } }];
+    const transport = HttpTransport({ url, retry: { baseDelayMs: 0 } });
+    await transport.write([record('a')]);
+    await transport.flush?.();
+    expect(received).toEqual([]);
+    expect(replies).toEqual([]);
+  });
+
+  test('drops a batch after maxAttempts', async () => {
+    replies = [{ status: 500 }, { status: 500 }];
+    const transport = HttpTransport({ url, retry: { baseDelayMs: 0, maxAttempts: 2 } });
+    await transport.write([record('a')]);
+    await transport.flush?.();
+    await transport.write([record('b')]);
+    await transport.flush?.();
+    expect(received).toEqual([[record('b')]]);
+  });
+
+  test('aborts hung requests and retries them', async () => {
+    replies = [{ status: 200, delayMs: 1000 }];
+    const transport = HttpTransport({ url, requestTimeoutMs: 50, retry: { baseDelayMs: 0 } });
+    const started = Date.now();
+    await transport.write([record('a')]);
+    await transport.flush?.();
+    // the first request timed out, the retry went through
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(received).toEqual([[record('a')]]);
+  });
+
+  test('resolves writes once the batch is in the outbox', async () => {
+    const storage = new MemoryStorage();
+    replies = [{ status: 200, delayMs: 200 }];
+    const transport = HttpTransport({ url, storage });
+    await transport.write([record('a')]);
+    expect(received).toEqual([]);
+    expect(JSON.parse(storage.items.get('rn-structured-logger:http-outbox')!)).toHaveLength(1);
+    await transport.flush?.();
+    expect(received).toEqual([[record('a')]]);
+  });
+
+  test('persists the outbox and resumes in a new instance', async () => {
+    const storage = new MemoryStorage();
+    replies = [{ status: 500 }];
+    const first = HttpTransport({ url, storage, retry: { baseDelayMs: 60_000 } });
+    await first.write([record('a')]);
+    await first.write([record('b')]);
+    await first.flush?.();
+    expect(received).toEqual([]);
+
+    const second = HttpTransport({ url, storage });
+    await second.flush?.();
+    expect(received).toEqual([[record('a')], [record('b')]]);
+    expect(JSON.parse(storage.items.get('rn-structured-logger:http-outbox')!)).toEqual([]);
+  });
+
+  test('keeps a bounded outbox and drops the oldest batch', async () => {
+    const storage = new MemoryStorage();
+    const transport = HttpTransport({
+      url: 'http://127.0.0.1:1/unreachable',
+      storage,
+      maxQueuedBatches: 2,
+      retry: { baseDelayMs: 60_000 },
+    });
+    await transport.write([record('a')]);
+    await transport.write([record('b')]);
+    await transport.write([record('c')]);
+    await transport.flush?.();
+    const saved = JSON.parse(storage.items.get('rn-structured-logger:http-outbox')!);
+    expect(saved.map((e: { body: string }) => JSON.parse(e.body)[0].msg)).toEqual(['b', 'c']);
+    expect(transport.stats!()).toEqual({ delivered: 0, failed: 0, dropped: 1 });
+  });
+
+  test('reports delivered and failed records in the logger stats', async () => {
+    replies = [{ status: 500 }, { status: 500 }];
+    const logger = new Logger({
+      level: 'info',
+      transports: [HttpTransport({ url, retry: { baseDelayMs: 0, maxAttempts: 2 } })],
+      batch: { size: 10, intervalMs: 60000 },
+    });
+    logger.info('a');
+    logger.info('b');
+    // both attempts get a 500, so the batch is given up
+    await logger.flush();
+    logger.info('c');
+    await logger.flush();
+    expect(received).toEqual([[expect.objectContaining({ msg: 'c' })]]);
+    expect(logger.getStats().transports.http).toMatchObject({ written: 1, failed: 2, dropped: 0, delivered: 1 });
+    await logger.dispose();
+  });
+});
@@ -1,5 +1,12 @@
 import { Logger } from '../src/Logger';
-import { LogRecord, Transport } from '../src/types';
+import { captureGlobalErrors, GlobalErrorHandler } from '../src/globalErrors';
+import { LogRecord, LoggerConfig, Transport } from '../src/types';
+import { makeRedactor } from '../src/utils/redactor';
+import { ConsoleTransport } from '../src/transports/ConsoleTransport';
+import { FileTransport } from '../src/transports/FileTransport';
+import { FilteredTransport } from '../src/transports/FilteredTransport';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { setDebugHandler } from '../src/utils/debug';
 
 // Mock transport to capture written records
 class MockTransport implements Transport {
@@ -62,6 +69,112 @@ describe('Logger', () => {
     expect(record.ns).toBe('child');
   });
 
+  test('merges child bindings into ctx', () => {
+    const child = logger.child({ ns: 'checkout', bindings: { userId: 1, screen: 'Cart' } });
+    child.info('message', { screen: 'Payment', step: 2 });
+    const record = mockTransport.written[0][0];
+    expect(record.ns).toBe('checkout');
+    expect(record.ctx).toEqual({ userId: 1, screen: 'Payment', step: 2 });
+  });
+
+  test('stacks bindings across nested children', () => {
+    const child = logger.withBindings({ userId: 1, screen: 'Cart' }).child({ ns: 'pay', bindings: { screen: 'Payment' } });
+    child.info('message');
+    const record = mockTransport.written[0][0];
+    expect(record.ns).toBe('pay');
+    expect(record.ctx).toEqual({ userId: 1, screen: 'Payment' });
+  });
+
+  test('redacts bindings', () => {
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 1, intervalMs: 0 },
+      redactor: makeRedactor(),
+    });
+    logger.withBindings({ token: 'abc' }).info('message');
+    expect(mockTransport.written[0][0].ctx).toEqual({ token: '[REDACTED]' });
+  });
+
+  test('does not throw on circular ctx behind a redactor', () => {
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 1, intervalMs: 0 },
+      redactor: makeRedactor(),
+    });
+    const ctx: Record<string, unknown> = { token: 'abc' };
+    ctx.self = ctx;
+    expect(() => logger.info('loop', ctx)).not.toThrow();
+    expect(mockTransport.written[0][0].ctx).toEqual({ token: '[REDACTED]', self: '[Circular]' });
+  });
+
+  test('drops records a custom redactor fails on', () => {
+    const debug = jest.fn();
+    setDebugHandler(debug);
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 1, intervalMs: 0 },
+      redactor: () => { throw new Error('bad redactor'); },
+    });
+    expect(() => logger.info('secret')).not.toThrow();
+    setDebugHandler();
+    expect(mockTransport.written).toEqual([]);
+    expect(debug).toHaveBeenCalledWith('Redactor threw; record dropped', expect.any(Error));
+  });
+
+  test('serializes an Error passed as message', () => {
+    logger.error(new Error('boom'), { userId: 1 });
+    const record = mockTransport.written[0][0];
+    expect(record.msg).toBe('boom');
+    expect(record.err?.name).toBe('Error');
+    expect(record.err?.stack).toBeDefined();
+    expect(record.ctx).toEqual({ userId: 1 });
+  });
+
+  test('redacts custom properties of lifted errors', () => {
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 1, intervalMs: 0 },
+      redactor: makeRedactor(),
+    });
+    const cause = Object.assign(new Error('socket'), { token: 't1' });
+    const err = Object.assign(new Error('Request failed with status code 401'), {
+      cause,
+      config: { headers: { Authorization: 'Bearer secret123' }, data: { user: 'jane', password: 'hunter2' } },
+    });
+    logger.error('login failed', { error: err });
+    const record = mockTransport.written[0][0];
+    expect(record.err).toMatchObject({
+      message: 'Request failed with status code 401',
+      config: { headers: { Authorization: '[REDACTED]' }, data: { user: 'jane', password: '[REDACTED]' } },
+      cause: { message: 'socket', token: '[REDACTED]' },
+    });
+    expect(JSON.stringify(record)).not.toMatch(/secret123|hunter2|t1/);
+  });
+
+  test('keeps only allowlisted properties of lifted errors', () => {
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 1, intervalMs: 0 },
+      redactor: makeRedactor({ allowlist: ['err.status'] }),
+    });
+    const err = Object.assign(new Error('Request failed'), { status: 401, config: { headers: { Authorization: 'Bearer secret123' } } });
+    logger.error('login failed', { err });
+    const record = mockTransport.written[0][0];
+    expect(record.err).toEqual({ name: 'Error', message: 'Request failed', stack: err.stack, status: 401 });
+  });
+
+  test('lifts an Error from ctx into err', () => {
+    logger.fatal('crashed', { err: new RangeError('bad') });
+    const record = mockTransport.written[0][0];
+    expect(record.err?.name).toBe('RangeError');
+    expect(record.ctx).toBeUndefined();
+  });
+
   test('sets correlation ID', () => {
     logger.setCorrelationId('test-id');
     logger.info('message');
@@ -77,10 +190,628 @@ describe('Logger', () => {
     expect(mockTransport.written.length).toBe(1);
   });
 
+  test('applies namespace level overrides from config', () => {
+    logger = new Logger({
+      level: 'warn',
+      levels: { 'api:*': 'trace', 'api:noisy': 'error' },
+      transports: [mockTransport],
+      batch: { size: 1, intervalMs: 0 },
+    });
+    logger.child('api:http').trace('kept');
+    logger.child('api:noisy').warn('dropped');
+    logger.child('auth').info('dropped');
+    logger.info('dropped');
+    expect(mockTransport.written.map(b => b[0].msg)).toEqual(['kept']);
+  });
+
+  test('setLevel with a pattern reaches existing children', async () => {
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 100, intervalMs: 1000 },
+    });
+    const child = logger.child('api').child('http');
+    child.debug('kept');
+    logger.setLevel('api:*', 'error');
+    child.warn('dropped');
+    logger.clearLevel('api:*');
+    child.debug('kept again');
+    await child.flush();
+    expect(mockTransport.written[0].map(r => r.msg)).toEqual(['kept', 'kept again']);
+  });
+
+  test('setLevel on a child applies to its namespace only', () => {
+    const child = logger.child('auth');
+    child.setLevel('error');
+    child.info('dropped');
+    logger.info('kept');
+    expect(mockTransport.written.map(b => b[0].msg)).toEqual(['kept']);
+  });
+
+  test('children share the root pipeline', async () => {
+    logger = new Logger({
+      level: 'debug',
+      transports: [mockTransport],
+      batch: { size: 100, intervalMs: 1000 },
+    });
+    const child = logger.child('a');
+    logger.setCorrelationId('req-1');
+    child.info('from child');
+    logger.info('from root');
+    await logger.flush();
+    expect(mockTransport.written).toHaveLength(1);
+    expect(mockTransport.written[0].map(r => [r.ns, r.msg, r.correlationId])).toEqual([
+      ['a', 'from child', 'req-1'],
+      [undefined, 'from root', 'req-1'],
+    ]);
+  });
+
+  describe('flushOnError', () => {
+    const make = (extra: Partial<ConstructorParameters<typeof Logger>[0]>) =>
+      new Logger({
+        level: 'warn',
+        transports: [mockTransport],
+        batch: { size: 100, intervalMs: 1000 },
+        ...extra,
+      });
+
+    test('writes buffered records before an error', async () => {
+      logger = make({ flushOnError: { maxRecords: 2 } });
+      logger.debug('one');
+      logger.info('two');
+      logger.info('three');
+      logger.error('boom');
+      await logger.flush();
+      expect(mockTransport.written[0].map(r => r.msg)).toEqual(['two', 'three', 'boom']);
+    });
+
+    test('drops buffered records without an error', async () => {
+      logger = make({ flushOnError: {} });
+      logger.info('quiet');
+      logger.warn('visible');
+      await logger.flush();
+      expect(mockTransport.written[0].map(r => r.msg)).toEqual(['visible']);
+    });
+
+    test('buffers per correlation ID', async () => {
+      logger = make({ flushOnError: { perCorrelationId: true } });
+      logger.setCorrelationId('a');
+      logger.info('a1');
+      logger.setCorrelationId('b');
+      logger.info('b1');
+      logger.error('b failed');
+      await logger.flush();
+      expect(mockTransport.written[0].map(r => r.msg)).toEqual(['b1', 'b failed']);
+    });
+
+    test('discards expired records', async () => {
+      const now = jest.spyOn(Date, 'now');
+      logger = make({ flushOnError: { maxAgeMs: 1000 } });
+      now.mockReturnValue(0);
+      logger.info('old');
+      now.mockReturnValue(5000);
+      logger.info('recent');
+      logger.error('boom');
+      now.mockRestore();
+      await logger.flush();
+      expect(mockTransport.written[0].map(r => r.msg)).toEqual(['recent', 'boom']);
+    });
+
+    test('captures sampled-out records', async () => {
+      logger = make({ level: 'debug', sampling: { rate: 0 }, flushOnError: {} });
+      logger.info('sampled out');
+      logger.error('boom');
+      await logger.flush();
+      expect(mockTransport.written[0].map(r => r.msg)).toEqual(['sampled out', 'boom']);
+    });
+  });
+
   test('flushes records', async () => {
     logger.info('message');
     await logger.flush();
     // Since batch size is 1, it should have flushed
     expect(mockTransport.written.length).toBe(1);
   });
-});
\ No newline at end of file
+});
+describe('captureGlobalErrors', () => {
+  const makeErrorUtils = (initial?: GlobalErrorHandler) => {
+    let current = initial;
+    return {
+      getGlobalHandler: () => current,
+      setGlobalHandler: (handler: GlobalErrorHandler) => { current = handler; },
+      raise: (error: unknown, isFatal?: boolean) => current?.(error, isFatal),
+    };
+  };
+
+  test('logs uncaught errors and flushes before the previous handler', async () => {
+    const transport = new MockTransport();
+    const calls: string[] = [];
+    transport.write = batch => { calls.push(`write:${batch[0].level}`); };
+    const previous = jest.fn(() => { calls.push('previous'); });
+    const errorUtils = makeErrorUtils(previous);
+    const logger = new Logger({
+      level: 'info',
+      transports: [transport],
+      batch: { size: 50, intervalMs: 60000 },
+      captureGlobalErrors: { errorUtils, unhandledRejections: false },
+    });
+    const error = new TypeError('undefined is not a function');
+    errorUtils.raise(error, true);
+    expect(previous).not.toHaveBeenCalled();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(calls).toEqual(['write:fatal', 'previous']);
+    expect(previous).toHaveBeenCalledWith(error, true);
+
+    await logger.dispose();
+    expect(errorUtils.getGlobalHandler()).toBe(previous);
+  });
+
+  test('logs unhandled rejections with non-error reasons', async () => {
+    const transport = new MockTransport();
+    let reject: ((reason: unknown) => void) | undefined;
+    const untrack = jest.fn();
+    const logger = new Logger({
+      level: 'info',
+      transports: [transport],
+      batch: { size: 50, intervalMs: 60000 },
+      captureGlobalErrors: {
+        errorUtils: makeErrorUtils(),
+        trackRejections: onUnhandled => { reject = onUnhandled; return untrack; },
+      },
+    });
+    reject!({ code: 'E_TIMEOUT' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const record = transport.written[0][0];
+    expect(record.level).toBe('error');
+    expect(record.msg).toBe('{"code":"E_TIMEOUT"}');
+    expect(record.ctx).toEqual({ source: 'unhandledRejection' });
+    expect(record.err?.name).toBe('Error');
+
+    await logger.dispose();
+    expect(untrack).toHaveBeenCalled();
+  });
+
+  test('hands over to the previous handler when the flush hangs or the handler was replaced', async () => {
+    const previous = jest.fn();
+    const errorUtils = makeErrorUtils(previous);
+    const restore = captureGlobalErrors(
+      { error: jest.fn(), fatal: jest.fn(), flush: () => new Promise<void>(() => undefined) },
+      { errorUtils, unhandledRejections: false, flushTimeoutMs: 10 }
+    );
+    errorUtils.raise(new Error('boom'), false);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(previous).toHaveBeenCalledTimes(1);
+
+    const outer = jest.fn();
+    const ours = errorUtils.getGlobalHandler()!;
+    errorUtils.setGlobalHandler(outer);
+    restore();
+    // another library chained on top; its handler is kept and ours only delegates
+    expect(errorUtils.getGlobalHandler()).toBe(outer);
+    ours(new Error('later'), true);
+    expect(previous).toHaveBeenCalledTimes(2);
+  });
+
+  test('rethrows what the previous handler throws outside the promise chain', async () => {
+    const crash = new Error('terminating');
+    const previous = jest.fn(() => { throw crash; });
+    const errorUtils = makeErrorUtils(previous);
+    const logger = { error: jest.fn(), fatal: jest.fn(), flush: async () => undefined };
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => { rejections.push(reason); };
+    process.on('unhandledRejection', onRejection);
+    // stands in for the runtime, which reports errors thrown by timers to the global handler
+    const thrown: unknown[] = [];
+    const realSetTimeout = setTimeout;
+    const timers = jest.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void, ms?: number) =>
+      realSetTimeout(() => {
+        try {
+          fn();
+        } catch (err) {
+          thrown.push(err);
+        }
+      }, ms)) as typeof setTimeout);
+    try {
+      const restore = captureGlobalErrors(logger, { errorUtils, unhandledRejections: false });
+      errorUtils.raise(new Error('boom'), true);
+      await new Promise(resolve => realSetTimeout(resolve, 10));
+      expect(thrown).toEqual([crash]);
+      expect(rejections).toEqual([]);
+      // routed back to us, the rethrown error goes straight to the previous handler
+      expect(() => errorUtils.raise(crash, true)).toThrow('terminating');
+      expect(logger.fatal).toHaveBeenCalledTimes(1);
+      expect(previous).toHaveBeenCalledTimes(2);
+      restore();
+    } finally {
+      timers.mockRestore();
+      process.off('unhandledRejection', onRejection);
+    }
+  });
+});
+
+describe('patchConsole', () => {
+  const methods = ['log', 'debug', 'info', 'warn', 'error'] as const;
+  let saved: Record<string, unknown>;
+
+  beforeEach(() => {
+    saved = {};
+    for (const method of methods) {
+      saved[method] = console[method];
+      console[method] = jest.fn();
+    }
+  });
+
+  afterEach(() => {
+    for (const method of methods) console[method] = saved[method] as never;
+  });
+
+  test('keeps objects as ctx and restores the console on dispose', async () => {
+    const original = console.warn;
+    const transport = new MockTransport();
+    const logger = new Logger({
+      level: 'debug',
+      namespace: 'app',
+      transports: [transport],
+      batch: { size: 50, intervalMs: 60000 },
+      patchConsole: true,
+    });
+    expect(console.warn).not.toBe(original);
+    console.warn('Low memory', { freeMb: 42 }, [1, 2]);
+    const error = new Error('boom');
+    console.error('Request failed', error, { status: 500 });
+    console.log('plain', 3);
+    await logger.flush();
+    const [warn, err, log] = transport.written[0];
+    expect(warn).toMatchObject({ level: 'warn', ns: 'console', msg: 'Low memory', ctx: { freeMb: 42, args: [[1, 2]] } });
+    expect(err).toMatchObject({ level: 'error', ns: 'console', msg: 'Request failed Error: boom', ctx: { status: 500 } });
+    expect(err.err?.message).toBe('boom');
+    expect(log).toMatchObject({ level: 'debug', msg: 'plain 3' });
+    expect(original).not.toHaveBeenCalled();
+
+    await logger.dispose();
+    expect(console.warn).toBe(original);
+  });
+
+  test('sends the logger\'s own console output to the original methods', () => {
+    const original = console.info;
+    const logger = new Logger({
+      level: 'debug',
+      transports: [ConsoleTransport],
+      batch: { size: 1, intervalMs: 0 },
+    });
+    const restore = logger.patchConsole();
+    console.info('hello');
+    expect(original).toHaveBeenCalledTimes(1);
+    expect((original as jest.Mock).mock.calls[0][1]).toBe('hello');
+    restore();
+    expect(console.info).toBe(original);
+  });
+});
+
+describe('bounded queue', () => {
+  test('drops records while a transport hangs and writes a summary afterwards', async () => {
+    const transport = new MockTransport();
+    let release!: () => void;
+    const hang = new Promise<void>(resolve => { release = resolve; });
+    const write = jest.fn((batch: LogRecord[]) => { transport.written.push(batch); });
+    transport.write = batch => {
+      write(batch);
+      return write.mock.calls.length === 1 ? hang : undefined;
+    };
+    const logger = new Logger({
+      level: 'debug',
+      transports: [transport],
+      batch: { size: 1, intervalMs: 60000, maxQueueSize: 2, overflow: 'drop-below-level' },
+    });
+    logger.info('first'); // in flight until released
+    logger.debug('a');
+    logger.warn('b');
+    logger.error('c'); // queue full: drops the debug record
+    logger.info('d'); // dropped itself
+    expect(logger.droppedRecords).toBe(2);
+    release();
+    await logger.flush();
+    await logger.flush();
+    const records = transport.written.flat();
+    expect(records.map(r => r.msg).slice(0, 3)).toEqual(['first', 'b', 'c']);
+    const summary = records[3];
+    expect(summary).toMatchObject({ level: 'warn', ns: 'logger', ctx: { dropped: 2, byLevel: { debug: 1, info: 1 } } });
+    await logger.dispose();
+  });
+});
+
+describe('transport isolation', () => {
+  const failing = (name: string, write: Transport['write']): Transport => ({ name, write });
+
+  test('a throwing, rejecting or hanging transport does not affect the others', async () => {
+    const good = new MockTransport();
+    const onTransportError = jest.fn();
+    const hanging = jest.fn(() => new Promise<void>(() => undefined));
+    const logger = new Logger({
+      level: 'info',
+      transports: [
+        failing('throws', () => { throw new Error('sync'); }),
+        failing('rejects', () => Promise.reject(new Error('async'))),
+        failing('hangs', hanging),
+        good,
+      ],
+      batch: { size: 1, intervalMs: 60000 },
+      writeTimeoutMs: 20,
+      onTransportError,
+    });
+    logger.info('one');
+    expect(good.written).toHaveLength(1);
+    logger.info('two');
+    // written long before the hanging transport times out
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(good.written).toHaveLength(2);
+    await logger.flush();
+    expect(hanging).toHaveBeenCalledTimes(2);
+    const failures = onTransportError.mock.calls.map(([err, info]) => [info.transport, info.timedOut, (err as Error).message]);
+    expect(failures).toEqual(expect.arrayContaining([
+      ['throws', false, 'sync'],
+      ['rejects', false, 'async'],
+      ['hangs', true, 'Transport did not respond within 20 ms'],
+    ]));
+    expect(onTransportError.mock.calls[0][1]).toMatchObject({ operation: 'write', records: 1, circuitOpened: false });
+    await logger.dispose();
+  });
+
+  test('opens the circuit after repeated failures and probes after the cooldown', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    let healthy = false;
+    const write = jest.fn(() => {
+      if (!healthy) throw new Error('down');
+    });
+    const onTransportError = jest.fn();
+    const logger = new Logger({
+      level: 'info',
+      transports: [failing('flaky', write)],
+      batch: { size: 1, intervalMs: 60000 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 5000 },
+      onTransportError,
+    });
+    logger.info('a');
+    logger.info('b');
+    await logger.flush();
+    expect(onTransportError.mock.calls[1][1].circuitOpened).toBe(true);
+    logger.info('skipped while open');
+    await logger.flush();
+    expect(write).toHaveBeenCalledTimes(2);
+
+    now.mockReturnValue(7000);
+    healthy = true;
+    logger.info('probe');
+    logger.info('after');
+    await logger.flush();
+    expect(write).toHaveBeenCalledTimes(4);
+    now.mockRestore();
+    await logger.dispose();
+  });
+
+  test('slow flushes are reported but do not open the circuit', async () => {
+    const onTransportError = jest.fn();
+    const good = new MockTransport();
+    const slow: Transport = { name: 'slow', write: records => good.write(records), flush: () => new Promise<void>(() => undefined) };
+    const logger = new Logger({
+      level: 'info',
+      transports: [slow],
+      batch: { size: 1, intervalMs: 60000 },
+      writeTimeoutMs: 10,
+      circuitBreaker: { failureThreshold: 1 },
+      onTransportError,
+    });
+    logger.info('a');
+    await logger.flush();
+    logger.info('b');
+    await logger.flush();
+    expect(onTransportError.mock.calls.map(([, info]) => [info.operation, info.circuitOpened])).toEqual([['flush', false], ['flush', false]]);
+    expect(good.written.flat().map(r => r.msg)).toEqual(['a', 'b']);
+    expect(logger.getStats().transports.slow.paused).toBe(false);
+    await logger.dispose();
+  });
+});
+
+describe('getStats', () => {
+  test('counts failed file writes as failed, not written', async () => {
+    const storage = MemoryStorage();
+    const append = storage.append;
+    storage.append = () => Promise.reject(new Error('disk full'));
+    const logger = new Logger({
+      level: 'info',
+      transports: [FilteredTransport(FileTransport({ fileName: 'app.log', storage }), { level: 'info' })],
+      batch: { size: 10, intervalMs: 60000 },
+    });
+    logger.info('a');
+    logger.info('b');
+    await logger.flush();
+    storage.append = append;
+    logger.info('c');
+    await logger.flush();
+    expect(logger.getStats().transports.file).toMatchObject({ written: 1, failed: 2 });
+    await logger.dispose();
+  });
+
+  test('counts records per level, namespace and transport', async () => {
+    const good = new MockTransport();
+    const logger = new Logger({
+      level: 'info',
+      transports: [good, { name: 'mock', write: () => { throw new Error('down'); } }],
+      batch: { size: 10, intervalMs: 60000 },
+      sampling: { rate: 0 },
+      rateLimit: { maxPerMin: 1 },
+    });
+    const api = logger.child('api');
+    api.debug('filtered');
+    api.info('sampled out');
+    api.error('e1');
+    logger.error('e2');
+    logger.info('rate limited');
+    await logger.flush();
+
+    const stats = logger.getStats();
+    expect(stats.totals).toEqual({ accepted: 2, filtered: 1, sampledOut: 1, rateLimited: 1, deduplicated: 0 });
+    expect(stats.levels.error).toEqual({ accepted: 2, filtered: 0, sampledOut: 0, rateLimited: 0, deduplicated: 0 });
+    expect(stats.namespaces.api).toMatchObject({ accepted: 1, filtered: 1, sampledOut: 1 });
+    expect(stats.namespaces['(root)']).toMatchObject({ accepted: 1, rateLimited: 1 });
+    // e1, e2 and the rate limit summary
+    expect(stats.transports.mock).toMatchObject({ written: 3, failed: 0, queued: 0, paused: false });
+    expect(stats.transports['mock#2']).toMatchObject({ written: 0, failed: 3 });
+    expect(stats.transports.mock.latency.count).toBe(1);
+    await logger.dispose();
+  });
+
+  test('writes periodic stats records', async () => {
+    const transport = new MockTransport();
+    const logger = new Logger({
+      level: 'info',
+      transports: [transport],
+      batch: { size: 1, intervalMs: 60000 },
+      stats: { intervalMs: 20 },
+    });
+    logger.info('hello');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await logger.dispose();
+    const record = transport.written.flat().find(r => r.msg === 'Logger stats');
+    expect(record).toMatchObject({ level: 'info', ns: 'logger', ctx: { totals: { accepted: 1 } } });
+  });
+
+  test('writes stats records below the level threshold without counting them', async () => {
+    const transport = new MockTransport();
+    const logger = new Logger({
+      level: 'warn',
+      transports: [transport],
+      batch: { size: 1, intervalMs: 60000 },
+      sampling: { rate: 0 },
+      stats: { intervalMs: 20 },
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(transport.written.flat().some(r => r.msg === 'Logger stats')).toBe(true);
+    expect(logger.getStats().totals).toMatchObject({ accepted: 0, filtered: 0, sampledOut: 0 });
+    await logger.dispose();
+  });
+
+  test('reports internal errors to the debug handler', async () => {
+    const debug = jest.fn();
+    setDebugHandler(debug);
+    const logger = new Logger({
+      level: 'info',
+      transports: [{ name: 'broken', write: () => Promise.reject(new Error('offline')) }],
+      batch: { size: 1, intervalMs: 60000 },
+    });
+    logger.info('lost');
+    await logger.dispose();
+    setDebugHandler(undefined);
+    expect(debug).toHaveBeenCalledWith('Transport "broken" failed to write', expect.objectContaining({ message: 'offline' }));
+  });
+});
+
+describe('rateLimit', () => {
+  const make = (transport: MockTransport, rateLimit: LoggerConfig['rateLimit']) => new Logger({
+    level: 'debug',
+    transports: [transport],
+    batch: { size: 100, intervalMs: 60000 },
+    rateLimit,
+  });
+
+  test('refills tokens over time and allows bursts', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const transport = new MockTransport();
+    const logger = make(transport, { maxPerMin: 60, burst: 3 });
+    for (let i = 0; i < 5; i++) logger.info(`burst ${i}`);
+    logger.error('never limited');
+    now.mockReturnValue(2000); // two tokens refilled
+    logger.info('after 1');
+    logger.info('after 2');
+    logger.info('after 3');
+    await logger.flush();
+    now.mockRestore();
+    const msgs = transport.written.flat().map(r => r.msg);
+    expect(msgs).toEqual([
+      'burst 0', 'burst 1', 'burst 2', 'never limited',
+      'Suppressed 2 similar messages', 'after 1', 'after 2',
+      'Suppressed 1 similar message',
+    ]);
+    const summary = transport.written.flat()[4];
+    expect(summary).toMatchObject({ level: 'info', ctx: { suppressed: 2, firstTs: 0, lastTs: 0, sample: 'burst 3' } });
+    await logger.dispose();
+  });
+
+  test('writes the summary after summaryIntervalMs when nothing else is logged', async () => {
+    const transport = new MockTransport();
+    const logger = new Logger({
+      level: 'info',
+      transports: [transport],
+      batch: { size: 1, intervalMs: 10 },
+      rateLimit: { maxPerMin: 1, summaryIntervalMs: 20 },
+    });
+    logger.info('a');
+    logger.info('b');
+    logger.info('c');
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(transport.written.flat().map(r => r.msg)).toEqual(['a', 'Suppressed 2 similar messages']);
+    await logger.dispose();
+  });
+
+  test('keeps a bucket per namespace or message fingerprint', async () => {
+    const transport = new MockTransport();
+    const logger = make(transport, { maxPerMin: 1, key: 'namespace' });
+    logger.child('chatty').info('a');
+    logger.child('chatty').info('b');
+    logger.child('quiet').info('c');
+    await logger.flush();
+    expect(transport.written.flat().map(r => r.msg)).toEqual(['a', 'c', 'Suppressed 1 similar message']);
+    expect(transport.written.flat()[2]).toMatchObject({ ns: 'chatty', ctx: { key: 'chatty' } });
+
+    const byMessage = new MockTransport();
+    const other = make(byMessage, { maxPerMin: 1, key: 'message' });
+    other.warn('retry 1 of 5');
+    other.warn('retry 2 of 5');
+    other.warn('connection lost');
+    await other.flush();
+    expect(byMessage.written.flat().map(r => r.msg)).toEqual(['retry 1 of 5', 'connection lost', 'Suppressed 1 similar message']);
+    await logger.dispose();
+    await other.dispose();
+  });
+});
+
+describe('dedupe', () => {
+  test('writes the first record and a summary of its duplicates on flush', async () => {
+    const transport = new MockTransport();
+    const logger = new Logger({
+      level: 'info',
+      transports: [transport],
+      batch: { size: 100, intervalMs: 60000 },
+      dedupe: { windowMs: 60000, ctxKeys: ['url'] },
+    });
+    const api = logger.child('api');
+    for (let i = 0; i < 4; i++) api.warn('Request failed, retrying', { url: '/a', attempt: i });
+    api.warn('Request failed, retrying', { url: '/b' });
+    api.error('Request failed, retrying', { url: '/a' });
+    await logger.flush();
+    const written = transport.written.flat();
+    expect(written.map(r => r.msg)).toEqual([
+      'Request failed, retrying',
+      'Request failed, retrying',
+      'Request failed, retrying',
+      'Request failed, retrying (repeated 3 times)',
+    ]);
+    expect(written[0].ctx).toEqual({ url: '/a', attempt: 0 });
+    expect(written[3]).toMatchObject({ level: 'warn', ns: 'api', ctx: { count: 3 } });
+    expect(written[3].ctx!.firstTs).toBeLessThanOrEqual(written[3].ctx!.lastTs as number);
+    expect(logger.getStats().namespaces.api).toMatchObject({ accepted: 3, deduplicated: 3 });
+    await logger.dispose();
+  });
+
+  test('writes the summary when the window closes', async () => {
+    const transport = new MockTransport();
+    const logger = new Logger({ level: 'info', transports: [transport], batch: { size: 1, intervalMs: 10 }, dedupe: { windowMs: 20 } });
+    logger.info('tick');
+    logger.info('tick');
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(transport.written.flat().map(r => r.msg)).toEqual(['tick', 'tick (repeated 1 time)']);
+    logger.info('tick');
+    expect(transport.written.flat()).toHaveLength(3);
+    await logger.dispose();
+  });
+});
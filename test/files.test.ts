@@ -0,0 +1,275 @@
+import { gunzipSync, strFromU8 } from 'fflate';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { FileTransport } from '../src/transports/FileTransport';
+import { FilteredTransport } from '../src/transports/FilteredTransport';
+import { exportLogs } from '../src/files/exportLogs';
+import { queryLogs } from '../src/files/queryLogs';
+import { decryptLogFile } from '../src/files/encryption';
+import { makeRedactor } from '../src/utils/redactor';
+import { makeSerializer } from '../src/utils/serializer';
+import { Logger } from '../src/Logger';
+import { VERSION } from '../src/version';
+import { LogRecord } from '../src/types';
+
+const rec = (ts: number, msg: string, extra: Partial<LogRecord> = {}): LogRecord => ({ ts, level: 'info', msg, ...extra });
+
+// writes one record per write, rotating after every record
+async function filesWith(records: LogRecord[]) {
+  const storage = MemoryStorage();
+  const transport = FileTransport({ storage, maxBytes: 1 });
+  for (const r of records) await transport.write([r]);
+  return { storage, transport };
+}
+
+describe('exportLogs', () => {
+  test('merges rotated and active files in timestamp order and writes a manifest', async () => {
+    const { storage, transport } = await filesWith([rec(1, 'a'), rec(3, 'c'), rec(2, 'b')]);
+    const { path, manifestPath, manifest } = await exportLogs(transport, { name: 'bundle', device: { os: 'ios' } });
+    expect(path).toBe('/memory/bundle.ndjson');
+    const lines = (await storage.read(path)).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(r => r.msg)).toEqual(['a', 'b', 'c']);
+    expect(JSON.parse(await storage.read(manifestPath))).toEqual(manifest);
+    expect(manifest).toMatchObject({
+      loggerVersion: VERSION,
+      device: { os: 'ios' },
+      bundle: 'bundle.ndjson',
+      compressed: false,
+      recordCount: 3,
+      firstTs: 1,
+      lastTs: 3,
+      truncated: false,
+    });
+    expect(manifest.files).toHaveLength(3);
+  });
+
+  test('filters by time, level and namespace and redacts again', async () => {
+    const { storage, transport } = await filesWith([
+      rec(1, 'old', { ns: 'api' }),
+      rec(5, 'keep', { ns: 'api:http', ctx: { token: 'abc' } }),
+      rec(6, 'other ns', { ns: 'ui' }),
+      rec(7, 'debug', { ns: 'api', level: 'debug' }),
+      rec(20, 'late', { ns: 'api' }),
+    ]);
+    const { path, manifest } = await exportLogs(transport, {
+      since: 2,
+      until: new Date(10),
+      levels: ['info'],
+      namespaces: ['api*'],
+      redactor: makeRedactor(),
+    });
+    expect(manifest.recordCount).toBe(1);
+    expect(JSON.parse(await storage.read(path))).toEqual(rec(5, 'keep', { ns: 'api:http', ctx: { token: '[REDACTED]' } }));
+  });
+
+  test('keeps the newest records within maxBytes', async () => {
+    const { storage, transport } = await filesWith([rec(1, 'a'), rec(2, 'b'), rec(3, 'c')]);
+    const line = JSON.stringify(rec(1, 'a')).length + 1;
+    const { path, manifest } = await exportLogs(transport, { maxBytes: line * 2 });
+    expect(manifest).toMatchObject({ recordCount: 2, firstTs: 2, truncated: true });
+    expect((await storage.read(path)).trim().split('\n')).toHaveLength(2);
+  });
+
+  test('gzips the bundle', async () => {
+    const { storage, transport } = await filesWith([rec(1, 'a')]);
+    const { path, manifest } = await exportLogs(transport, { name: 'b', gzip: true });
+    expect(path).toBe('/memory/b.ndjson.gz');
+    expect(manifest.compressed).toBe(true);
+    expect(JSON.parse(strFromU8(gunzipSync(await storage.readBytes!(path))))).toEqual(rec(1, 'a'));
+  });
+
+  test('is available on the logger through a filtered FileTransport', async () => {
+    const storage = MemoryStorage();
+    const logger = new Logger({
+      level: 'info',
+      transports: [FilteredTransport(FileTransport({ storage }), { level: 'info' })],
+      redactor: makeRedactor(['email']),
+      device: { model: 'Pixel' },
+    });
+    logger.info('signed in', { email: 'a@b.c' });
+    const { path, manifest } = await logger.exportLogs();
+    expect(manifest.device).toEqual({ model: 'Pixel' });
+    expect(JSON.parse(await storage.read(path)).ctx).toEqual({ email: '[REDACTED]' });
+  });
+
+  test('rejects when no FileTransport is configured', async () => {
+    const logger = new Logger({ level: 'info', transports: [{ name: 'noop', write: () => undefined }] });
+    await expect(logger.exportLogs()).rejects.toThrow('FileTransport');
+  });
+});
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+describe('queryLogs', () => {
+  test('filters by level, namespace, correlation ID, text, ctx and time', async () => {
+    const { transport } = await filesWith([
+      rec(1, 'Payment failed', { level: 'error', ns: 'api:pay', correlationId: 's1', ctx: { user: { id: 7 } } }),
+      rec(2, 'payment retried', { level: 'warn', ns: 'api:pay', correlationId: 's1', ctx: { user: { id: 7 } } }),
+      rec(3, 'boom', { level: 'fatal', ns: 'api:pay', correlationId: 's1', ctx: { user: { id: 7 } }, err: { name: 'Error', message: 'Payment timeout' } }),
+      rec(4, 'Payment failed', { level: 'error', ns: 'ui', correlationId: 's1', ctx: { user: { id: 7 } } }),
+      rec(5, 'Payment failed', { level: 'error', ns: 'api:pay', correlationId: 's2', ctx: { user: { id: 7 } } }),
+      rec(6, 'Payment failed', { level: 'error', ns: 'api:pay', correlationId: 's1', ctx: { user: { id: 8 } } }),
+    ]);
+    const query = { level: 'error', ns: 'api:*', correlationId: 's1', text: 'PAYMENT', ctx: { 'user.id': 7 } } as const;
+    expect((await collect(queryLogs(transport, query))).map(r => r.ts)).toEqual([1, 3]);
+    expect((await collect(queryLogs(transport, { ...query, since: 2, until: new Date(5) }))).map(r => r.ts)).toEqual([3]);
+    expect((await collect(queryLogs(transport, { ctx: { user: { id: 8 } } }))).map(r => r.ts)).toEqual([6]);
+  });
+
+  test('pages with limit and cursor in both orders', async () => {
+    const { transport } = await filesWith([1, 2, 3, 4, 5].map(ts => rec(ts, `m${ts}`)));
+    for (const [order, expected] of [['asc', [1, 2, 3, 4, 5]], ['desc', [5, 4, 3, 2, 1]]] as const) {
+      const seen: number[] = [];
+      let cursor: string | undefined;
+      for (let page = 0; page < 4; page++) {
+        const query = queryLogs(transport, { order, limit: 2, cursor });
+        seen.push(...(await collect(query)).map(r => r.ts));
+        cursor = query.cursor;
+      }
+      expect(seen).toEqual(expected);
+    }
+  });
+
+  test('resumes a cursor into the active file after it was rotated', async () => {
+    const storage = MemoryStorage();
+    const transport = FileTransport({ storage, maxBytes: 50 });
+    await transport.write([rec(1, 'a'), rec(2, 'b')]);
+    const first = queryLogs(transport, { limit: 1 });
+    expect((await collect(first)).map(r => r.msg)).toEqual(['a']);
+    await transport.write([rec(3, 'c')]);
+    await transport.write([rec(4, 'd')]);
+    expect((await transport.listLogFiles()).length).toBeGreaterThan(1);
+    expect((await collect(queryLogs(transport, { cursor: first.cursor }))).map(r => r.msg)).toEqual(['b', 'c', 'd']);
+  });
+
+  test('streams files larger than one read chunk', async () => {
+    const storage = MemoryStorage();
+    const serializer = makeSerializer({ maxStringLength: Infinity, maxBytes: Infinity });
+    const transport = FileTransport({ storage, maxBytes: 10 * 1024 * 1024, serializer });
+    const records = Array.from({ length: 3000 }, (_, i) => rec(i, `message ${i} ${'é'.repeat(i % 7)}`));
+    records[1500].msg = 'x'.repeat(100 * 1024);
+    await transport.write(records);
+    expect(await collect(queryLogs(transport))).toEqual(records);
+    expect(await collect(queryLogs(transport, { order: 'desc' }))).toEqual(records.slice().reverse());
+  });
+
+  test('rejects an invalid cursor', async () => {
+    const { transport } = await filesWith([rec(1, 'a')]);
+    await expect(collect(queryLogs(transport, { cursor: 'nope' }))).rejects.toThrow('Invalid log query cursor');
+  });
+});
+
+describe('FileTransport encryption', () => {
+  const key = new Uint8Array(32).fill(7);
+  const encryption = { key: () => key };
+
+  test('writes authenticated frames that query and export decrypt', async () => {
+    const storage = MemoryStorage();
+    const transport = FileTransport({ storage, maxBytes: 200, encryption });
+    await transport.write([rec(1, 'secret a'), rec(2, 'secret b')]);
+    await transport.write([rec(3, 'secret c')]);
+    await transport.write([rec(4, 'secret d')]);
+    const files = await transport.listLogFiles();
+    expect(files.length).toBeGreaterThan(1);
+    for (const file of files) {
+      expect(file.encrypted).toBe(true);
+      expect(await storage.read(file.path)).not.toContain('secret');
+    }
+    expect((await collect(queryLogs(transport, { order: 'desc' }))).map(r => r.ts)).toEqual([4, 3, 2, 1]);
+
+    const { path, manifest } = await exportLogs(transport, { name: 'b', gzip: true });
+    expect(path).toBe('/memory/b.ndjson.gz.enc');
+    expect(manifest).toMatchObject({ encrypted: true, compressed: true, recordCount: 4 });
+    const ndjson = strFromU8(gunzipSync(decryptLogFile(await storage.readBytes!(path), key)));
+    expect(ndjson.trim().split('\n').map(line => JSON.parse(line).msg)).toEqual(['secret a', 'secret b', 'secret c', 'secret d']);
+  });
+
+  test('rejects tampered frames and wrong keys and ignores a torn last frame', async () => {
+    const storage = MemoryStorage();
+    const transport = FileTransport({ storage, encryption });
+    await transport.write([rec(1, 'a')]);
+    await transport.write([rec(2, 'b')]);
+    const data = await storage.readBytes!('/memory/app.log');
+    expect(strFromU8(decryptLogFile(data.subarray(0, data.length - 3), key))).toContain('"msg":"a"');
+    expect(() => decryptLogFile(data, new Uint8Array(32))).toThrow('failed authentication');
+    const tampered = data.slice();
+    tampered[20] ^= 1;
+    expect(() => decryptLogFile(tampered, key)).toThrow('failed authentication');
+  });
+
+  test('keeps the batches appended after a torn frame', async () => {
+    const storage = MemoryStorage();
+    const transport = FileTransport({ storage, encryption });
+    await transport.write([rec(1, 'a')]);
+    await transport.write([rec(2, 'b'.repeat(200))]);
+    const data = await storage.readBytes!('/memory/app.log');
+    await storage.writeBytes!('/memory/app.log', data.subarray(0, data.length - 100));
+    await transport.write([rec(3, 'c')]);
+    await transport.write([rec(4, 'd')]);
+    const lines = strFromU8(decryptLogFile(await storage.readBytes!('/memory/app.log'), key)).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).msg)).toEqual(['a', 'c', 'd']);
+    expect((await collect(queryLogs(transport))).map(r => r.ts)).toEqual([1, 3, 4]);
+  });
+
+  test('rotates the active file when encryption is turned on', async () => {
+    const storage = MemoryStorage();
+    await FileTransport({ storage }).write([rec(1, 'plain')]);
+    const encrypted = FileTransport({ storage, encryption });
+    await encrypted.write([rec(2, 'sealed')]);
+    const files = await encrypted.listLogFiles();
+    expect(files.map(f => !!f.encrypted)).toEqual([false, true]);
+    expect((await collect(queryLogs(encrypted))).map(r => r.msg)).toEqual(['plain', 'sealed']);
+    await expect(collect(queryLogs({ ...encrypted, encryption: undefined }))).rejects.toThrow('no encryption key');
+  });
+});
+
+describe('FileTransport compression', () => {
+  const lines = (n: number, from = 0) => Array.from({ length: n }, (_, i) => rec(from + i, `request handled in ${i} ms`, { ns: 'api' }));
+
+  test.each(['gzip', 'deflate'] as const)('compresses rotated files with %s and reads them back', async format => {
+    const storage = MemoryStorage();
+    const transport = FileTransport({ storage, maxBytes: 2000, compress: format });
+    await transport.write(lines(50));
+    await transport.write(lines(1, 50));
+    const files = await transport.listLogFiles();
+    const ext = format === 'gzip' ? '.gz' : '.deflate';
+    expect(files.map(f => [f.name.endsWith(ext), f.compressed ?? null, f.active])).toEqual([
+      [true, format, false],
+      [false, null, true],
+    ]);
+    expect(files[0].size).toBeLessThan(1000);
+    expect((await collect(queryLogs(transport))).map(r => r.ts)).toEqual(lines(51).map(r => r.ts));
+    expect((await exportLogs(transport)).manifest.recordCount).toBe(51);
+  });
+
+  test('compresses encrypted files before encrypting them again', async () => {
+    const storage = MemoryStorage();
+    const key = new Uint8Array(32).fill(1);
+    const transport = FileTransport({ storage, maxBytes: 2000, compress: 'gzip', encryption: { key: () => key } });
+    await transport.write(lines(50));
+    await transport.write(lines(1, 50));
+    const [rotated] = await transport.listLogFiles();
+    expect(rotated).toMatchObject({ encrypted: true, compressed: 'gzip' });
+    expect(rotated.size).toBeLessThan(1000);
+    expect(await collect(queryLogs(transport, { limit: 1 }))).toEqual(lines(1));
+  });
+
+  test('counts compressed sizes for retention and finishes interrupted compression', async () => {
+    const storage = MemoryStorage();
+    const transport = FileTransport({ storage, maxBytes: 2000, compress: 'gzip', maxTotalBytes: 3000 });
+    for (let i = 0; i < 4; i++) await transport.write(lines(50, i * 50));
+    // each plain file is over 2000 bytes, so without compression at most one would be kept
+    expect((await transport.listLogFiles()).length).toBeGreaterThan(2);
+
+    // an original left next to a partial compressed copy
+    storage.files.set('/memory/app.log.1.gz', { data: new Uint8Array([1, 2]), mtime: 0 });
+    await storage.append('/memory/app.log.1', JSON.stringify(rec(-1, 'orphan')) + '\n');
+    expect((await collect(queryLogs(transport, { limit: 1 })))[0].msg).toBe('orphan');
+    await FileTransport({ storage, compress: 'gzip' }).write([rec(1000, 'x')]);
+    expect(storage.files.has('/memory/app.log.1')).toBe(false);
+    expect((await collect(queryLogs(transport, { limit: 1 })))[0].msg).toBe('orphan');
+  });
+});
@@ -0,0 +1,146 @@
+import { JsonFormatter } from '../src/formatters/JsonFormatter';
+import { LogfmtFormatter } from '../src/formatters/LogfmtFormatter';
+import { PrettyFormatter } from '../src/formatters/PrettyFormatter';
+import { EcsFormatter } from '../src/formatters/EcsFormatter';
+import { GelfFormatter } from '../src/formatters/GelfFormatter';
+import { LogRecord } from '../src/types';
+
+const record: LogRecord = {
+  ts: Date.UTC(2024, 0, 15, 10, 30, 45, 123),
+  level: 'warn',
+  msg: 'Payment slow',
+  ns: 'checkout',
+  ctx: { ms: 1200, user: { id: 42 } },
+  correlationId: 'req-1',
+  device: { deviceModel: 'Pixel 8' },
+};
+
+const withError: LogRecord = {
+  ...record,
+  level: 'error',
+  err: { name: 'TypeError', message: 'boom', stack: 'TypeError: boom\n    at pay' },
+};
+
+describe('JsonFormatter', () => {
+  test('formats records and batches as JSON', () => {
+    const formatter = JsonFormatter();
+    expect(JSON.parse(formatter.format(record))).toEqual(record);
+    expect(JSON.parse(formatter.formatBatch!([record, record]))).toHaveLength(2);
+    expect(formatter.contentType).toBe('application/json');
+  });
+});
+
+describe('LogfmtFormatter', () => {
+  test('formats key=value pairs with quoting and flattening', () => {
+    expect(LogfmtFormatter().format(record)).toBe(
+      'ts=2024-01-15T10:30:45.123Z level=warn ns=checkout msg="Payment slow" correlationId=req-1 ' +
+        'ms=1200 user.id=42 device.deviceModel="Pixel 8"'
+    );
+  });
+
+  test('includes error fields', () => {
+    const line = LogfmtFormatter().format(withError);
+    expect(line).toContain('err.name=TypeError err.message=boom err.stack="TypeError: boom\\n    at pay"');
+  });
+
+  test('keeps context keys from overwriting record fields and escapes keys', () => {
+    const line = LogfmtFormatter().format({
+      ts: 0,
+      level: 'info',
+      msg: 'real',
+      ctx: { msg: 'fake', level: 'fatal', err: { name: 'x' }, 'a b=c': 1 }
+    });
+    expect(line).toBe(
+      'ts=1970-01-01T00:00:00.000Z level=info msg=real ctx.msg=fake ctx.level=fatal ctx.err.name=x a_b_c=1'
+    );
+  });
+});
+
+describe('PrettyFormatter', () => {
+  test('formats a readable line with the stack below', () => {
+    expect(PrettyFormatter().format(withError)).toBe(
+      '[2024-01-15T10:30:45.123Z] checkout ERROR: Payment slow {"ms":1200,"user":{"id":42},"correlationId":"req-1"}\n' +
+        'TypeError: boom\n    at pay'
+    );
+  });
+});
+
+describe('EcsFormatter', () => {
+  test('maps records to ECS fields', () => {
+    const doc = JSON.parse(EcsFormatter({ serviceName: 'shop' }).format(withError));
+    expect(doc).toEqual({
+      '@timestamp': '2024-01-15T10:30:45.123Z',
+      'log.level': 'error',
+      message: 'Payment slow',
+      'ecs.version': '8.11.0',
+      ctx: { ms: 1200, user: { id: 42 } },
+      log: { logger: 'checkout' },
+      service: { name: 'shop' },
+      labels: { correlation_id: 'req-1' },
+      error: { type: 'TypeError', message: 'boom', stack_trace: 'TypeError: boom\n    at pay' },
+      device: { deviceModel: 'Pixel 8' },
+    });
+  });
+
+  test('merges ctx at the top level when ctxField is empty', () => {
+    const doc = JSON.parse(EcsFormatter({ ctxField: '' }).format(record));
+    expect(doc.ms).toBe(1200);
+    expect(doc.ctx).toBeUndefined();
+  });
+
+  test('formats batches as NDJSON', () => {
+    const body = EcsFormatter().formatBatch!([record, record]);
+    expect(body.trim().split('\n')).toHaveLength(2);
+  });
+});
+
+describe('GelfFormatter', () => {
+  test('maps records to GELF 1.1', () => {
+    const msg = JSON.parse(GelfFormatter().format(withError));
+    expect(msg).toEqual({
+      version: '1.1',
+      host: 'Pixel 8',
+      short_message: 'Payment slow',
+      full_message: 'TypeError: boom\n    at pay',
+      timestamp: record.ts / 1000,
+      level: 3,
+      _level_name: 'error',
+      _ns: 'checkout',
+      _correlation_id: 'req-1',
+      _ms: 1200,
+      _user_id: 42,
+      _device_deviceModel: 'Pixel 8',
+      _error_name: 'TypeError',
+      _error_message: 'boom',
+    });
+  });
+
+  test('renames the reserved id field', () => {
+    const msg = JSON.parse(GelfFormatter({ host: 'app' }).format({ ts: 0, level: 'info', msg: 'x', ctx: { id: 7 } }));
+    expect(msg.host).toBe('app');
+    expect(msg._ctx_id).toBe(7);
+    expect(msg._id).toBeUndefined();
+  });
+
+  test('keeps context keys from overwriting record fields', () => {
+    const msg = JSON.parse(
+      GelfFormatter().format({
+        ts: 0,
+        level: 'info',
+        msg: 'x',
+        ns: 'auth',
+        correlationId: 'req-1',
+        ctx: { level_name: 'fatal', ns: 'fake', correlation_id: 'other', device: { os: 'x' } }
+      })
+    );
+    expect(msg).toMatchObject({
+      _level_name: 'info',
+      _ns: 'auth',
+      _correlation_id: 'req-1',
+      _ctx_level_name: 'fatal',
+      _ctx_ns: 'fake',
+      _ctx_correlation_id: 'other',
+      _ctx_device_os: 'x'
+    });
+  });
+});
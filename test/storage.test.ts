@@ -0,0 +1,149 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ExpoFileSystemStorage } from '../src/storage/ExpoFileSystemStorage';
+import { MemoryStorage } from '../src/storage/MemoryStorage';
+import { NodeFsStorage } from '../src/node';
+import { FileTransport } from '../src/transports/FileTransport';
+import { LogStorage } from '../src/types';
+
+// The legacy expo-file-system API, backed by Node's fs
+jest.mock(
+  'expo-file-system/legacy',
+  () => {
+    const fs = require('fs');
+    type Options = { encoding?: BufferEncoding; length?: number; position?: number; idempotent?: boolean };
+    return {
+      cacheDirectory: null,
+      async getInfoAsync(path: string) {
+        if (!fs.existsSync(path)) return { exists: false, isDirectory: false };
+        const info = fs.statSync(path);
+        return { exists: true, isDirectory: info.isDirectory(), size: info.size, modificationTime: info.mtimeMs / 1000 };
+      },
+      async readAsStringAsync(path: string, { encoding = 'utf8', length, position = 0 }: Options = {}) {
+        const data: Buffer = fs.readFileSync(path);
+        return (length === undefined ? data : data.subarray(position, position + length)).toString(encoding);
+      },
+      async writeAsStringAsync(path: string, contents: string, { encoding = 'utf8' }: Options = {}) {
+        fs.writeFileSync(path, Buffer.from(contents, encoding));
+      },
+      async moveAsync({ from, to }: { from: string; to: string }) {
+        fs.renameSync(from, to);
+      },
+      async readDirectoryAsync(path: string) {
+        return fs.readdirSync(path);
+      },
+      async deleteAsync(path: string, { idempotent = false }: Options = {}) {
+        fs.rmSync(path, { force: idempotent });
+      },
+    };
+  },
+  { virtual: true }
+);
+
+// SDK 54 and later: the legacy functions on the main module throw
+jest.mock(
+  'expo-file-system',
+  () => ({
+    cacheDirectory: '/nowhere/',
+    getInfoAsync() {
+      throw new Error('Method getInfoAsync imported from "expo-file-system" is deprecated');
+    },
+  }),
+  { virtual: true }
+);
+
+// The same contract is run against every adapter that works in Node
+const adapters: [string, () => { storage: LogStorage; cleanup(): void }][] = [
+  ['MemoryStorage', () => ({ storage: MemoryStorage(), cleanup: () => undefined })],
+  [
+    'NodeFsStorage',
+    () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rnsl-'));
+      return { storage: NodeFsStorage(dir), cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+    },
+  ],
+  [
+    'ExpoFileSystemStorage',
+    () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rnsl-'));
+      require('expo-file-system/legacy').cacheDirectory = `${dir}/`;
+      return { storage: ExpoFileSystemStorage(), cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+    },
+  ],
+];
+
+describe.each(adapters)('%s', (_name, create) => {
+  let storage: LogStorage;
+  let cleanup: () => void;
+  let file: string;
+
+  beforeEach(() => {
+    ({ storage, cleanup } = create());
+    file = `${storage.directory}/a.log`;
+  });
+
+  afterEach(() => cleanup());
+
+  test('appends, stats and reads', async () => {
+    expect(await storage.stat(file)).toBeNull();
+    await storage.append(file, 'hello ');
+    await storage.append(file, 'wörld');
+    expect(await storage.read(file)).toBe('hello wörld');
+    expect(await storage.read(file, 4, 1)).toBe('ello');
+    const stat = await storage.stat(file);
+    expect(stat?.size).toBe(12);
+    expect(typeof stat?.mtime).toBe('number');
+  });
+
+  test('moves, lists and deletes', async () => {
+    await storage.append(file, 'x');
+    await storage.move(file, `${file}.1`);
+    expect(await storage.stat(file)).toBeNull();
+    expect(await storage.list(storage.directory)).toEqual([{ name: 'a.log.1', path: `${file}.1`, size: 1 }]);
+    await storage.delete(`${file}.1`);
+    await storage.delete(`${file}.1`);
+    expect(await storage.list(storage.directory)).toEqual([]);
+  });
+
+  test('writes and reads bytes', async () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    await storage.writeBytes!(file, bytes);
+    expect(Array.from(await storage.readBytes!(file))).toEqual([0, 1, 127, 128, 255]);
+    expect((await storage.stat(file))?.size).toBe(5);
+    await storage.writeBytes!(file, new Uint8Array([1]));
+    await storage.appendBytes!(file, new Uint8Array([2, 3]));
+    expect(Array.from(await storage.readBytes!(file))).toEqual([1, 2, 3]);
+  });
+
+  test('backs a FileTransport with rotation', async () => {
+    const transport = FileTransport({ storage, fileName: 'app.log', maxBytes: 10, maxFiles: 1 });
+    for (const msg of ['one', 'two', 'three']) {
+      await transport.write([{ ts: 1, level: 'info', msg }]);
+    }
+    const files = await transport.listLogFiles();
+    expect(files.map(f => f.active)).toEqual([false, true]);
+    expect(await storage.read(files[1].path)).toContain('"msg":"three"');
+    expect(files[1].startTs).toBe(1);
+  });
+});
+
+describe('rn-structured-logger/node', () => {
+  const root = path.join(__dirname, '..');
+  const run = (args: string[]): string => execFileSync(process.execPath, args, { cwd: root, encoding: 'utf8' }).trim();
+
+  beforeAll(() => {
+    run([require.resolve('typescript/bin/tsc'), '-p', 'tsconfig.cjs.json']);
+  }, 60_000);
+
+  test('loads the built entry with require', () => {
+    const code = "const { NodeFsStorage, decryptLogFile } = require('rn-structured-logger/node'); console.log(typeof NodeFsStorage, typeof decryptLogFile)";
+    expect(run(['-e', code])).toBe('function function');
+  });
+
+  test('loads the built entry with import', () => {
+    const code = "import { NodeFsStorage } from 'rn-structured-logger/node'; console.log(typeof NodeFsStorage)";
+    expect(run(['--input-type=module', '-e', code])).toBe('function');
+  });
+});
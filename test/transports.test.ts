@@ -1,8 +1,14 @@
-import { ConsoleTransport } from '../src/transports/ConsoleTransport';
+import { ConsoleTransport, makeConsoleTransport } from '../src/transports/ConsoleTransport';
+import { LogfmtFormatter } from '../src/formatters/LogfmtFormatter';
+import { EcsFormatter } from '../src/formatters/EcsFormatter';
 import { FileTransport } from '../src/transports/FileTransport';
 import { HttpTransport } from '../src/transports/HttpTransport';
 import { SentryTransport } from '../src/transports/SentryTransport';
-import { LogRecord } from '../src/types';
+import { FilteredTransport } from '../src/transports/FilteredTransport';
+import { RNFSStorage } from '../src/storage/RNFSStorage';
+import { toBase64 } from '../src/utils/base64';
+import { OtlpHttpTransport } from '../src/transports/OtlpHttpTransport';
+import { LogRecord, Transport } from '../src/types';
 
 // Mock react-native-fs
 jest.mock('react-native-fs', () => ({
@@ -10,12 +16,17 @@ jest.mock('react-native-fs', () => ({
   stat: jest.fn(),
   moveFile: jest.fn(),
   appendFile: jest.fn(),
+  readDir: jest.fn(),
+  unlink: jest.fn(),
+  exists: jest.fn(),
+  read: jest.fn(async () => ''),
 }));
 
 // Mock @sentry/react-native
 jest.mock('@sentry/react-native', () => ({
   addBreadcrumb: jest.fn(),
   captureMessage: jest.fn(),
+  captureException: jest.fn(),
   flush: jest.fn(),
 }));
 
@@ -55,6 +66,28 @@ describe('ConsoleTransport', () => {
     ConsoleTransport.write([record]);
     expect(mockConsole.error).toHaveBeenCalled();
   });
+
+  test('prints through a formatter', () => {
+    const transport = makeConsoleTransport({ formatter: LogfmtFormatter() });
+    transport.write([{ ts: 0, level: 'warn', msg: 'hi' }]);
+    expect(mockConsole.warn).toHaveBeenCalledWith('ts=1970-01-01T00:00:00.000Z level=warn msg=hi');
+  });
+
+  test('prints error stack', () => {
+    const record: LogRecord = {
+      ts: Date.now(),
+      level: 'error',
+      msg: 'failed',
+      err: { name: 'Error', message: 'boom', stack: 'Error: boom\n    at here' },
+    };
+    ConsoleTransport.write([record]);
+    expect(mockConsole.error).toHaveBeenCalledWith(
+      expect.any(String),
+      'failed',
+      expect.any(Object),
+      'Error: boom\n    at here'
+    );
+  });
 });
 
 describe('FileTransport', () => {
@@ -71,6 +104,93 @@ describe('FileTransport', () => {
     expect(mockRNFS.appendFile).toHaveBeenCalledWith('/cache/test.log', expect.stringContaining('"msg":"test"'), 'utf8');
   });
 
+  test('writes lines through a formatter', async () => {
+    const mockRNFS = require('react-native-fs');
+    mockRNFS.stat.mockResolvedValue({ isFile: () => true, size: 100 });
+    mockRNFS.appendFile.mockResolvedValue(undefined);
+    const transport = FileTransport({ fileName: 'test.log', formatter: LogfmtFormatter() });
+    await transport.write([{ ts: 0, level: 'info', msg: 'a' }, { ts: 0, level: 'info', msg: 'b' }]);
+    expect(mockRNFS.appendFile).toHaveBeenCalledWith(
+      '/cache/test.log',
+      'ts=1970-01-01T00:00:00.000Z level=info msg=a\nts=1970-01-01T00:00:00.000Z level=info msg=b\n',
+      'utf8'
+    );
+  });
+
+  test('writes records with circular context', async () => {
+    const mockRNFS = require('react-native-fs');
+    mockRNFS.stat.mockResolvedValue({ isFile: () => true, size: 100 });
+    mockRNFS.appendFile.mockResolvedValue(undefined);
+    const transport = FileTransport({ fileName: 'test.log' });
+    const ctx: Record<string, unknown> = {};
+    ctx.self = ctx;
+    await transport.write([{ ts: Date.now(), level: 'info', msg: 'loop', ctx }]);
+    expect(mockRNFS.appendFile).toHaveBeenCalledWith('/cache/test.log', expect.stringContaining('"self":"[Circular]"'), 'utf8');
+  });
+
+  test('rotates daily when the file was last written on an earlier day', async () => {
+    const mockRNFS = require('react-native-fs');
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    mockRNFS.stat.mockResolvedValue({ isFile: () => true, size: 10, mtime: yesterday });
+    mockRNFS.appendFile.mockResolvedValue(undefined);
+    const transport = FileTransport({ fileName: 'test.log', rotateEvery: 'daily' });
+    await transport.write([{ ts: Date.now(), level: 'info', msg: 'test' }]);
+    expect(mockRNFS.moveFile).toHaveBeenCalledWith('/cache/test.log', expect.stringMatching(/^\/cache\/test\.log\.\d+$/));
+  });
+
+  describe('retention', () => {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    const rotated = [
+      { name: 'test.log.' + (now - 10 * day), path: '/cache/test.log.' + (now - 10 * day), size: 300 },
+      { name: 'test.log.' + (now - 2 * day), path: '/cache/test.log.' + (now - 2 * day), size: 200 },
+      { name: 'test.log.' + (now - day), path: '/cache/test.log.' + (now - day), size: 100 },
+      { name: 'other.log.1', path: '/cache/other.log.1', size: 999 },
+    ];
+
+    beforeEach(() => {
+      const mockRNFS = require('react-native-fs');
+      mockRNFS.stat.mockResolvedValue({ isFile: () => true, size: 50, mtime: new Date(now) });
+      mockRNFS.appendFile.mockResolvedValue(undefined);
+      mockRNFS.unlink.mockResolvedValue(undefined);
+      mockRNFS.readDir.mockResolvedValue(rotated);
+    });
+
+    const unlinked = () => require('react-native-fs').unlink.mock.calls.map((c: string[]) => c[0]);
+
+    test('keeps at most maxFiles rotated files', async () => {
+      await FileTransport({ fileName: 'test.log', maxFiles: 1 }).write([{ ts: now, level: 'info', msg: 'x' }]);
+      expect(unlinked()).toEqual([rotated[0].path, rotated[1].path]);
+    });
+
+    test('deletes files older than maxAgeDays', async () => {
+      await FileTransport({ fileName: 'test.log', maxAgeDays: 7 }).write([{ ts: now, level: 'info', msg: 'x' }]);
+      expect(unlinked()).toEqual([rotated[0].path]);
+    });
+
+    test('keeps the total size under maxTotalBytes', async () => {
+      await FileTransport({ fileName: 'test.log', maxTotalBytes: 300 }).write([{ ts: now, level: 'info', msg: 'x' }]);
+      expect(unlinked()).toEqual([rotated[0].path, rotated[1].path]);
+    });
+
+    test('lists rotated and active files in order', async () => {
+      const mockRNFS = require('react-native-fs');
+      mockRNFS.read.mockImplementation(async (path: string) => toBase64(new TextEncoder().encode(
+        path === '/cache/test.log' ? '{"ts":5,"level":"info","msg":"a"}\n{"ts":6' : 'not json'
+      )));
+      const files = await FileTransport({ fileName: 'test.log' }).listLogFiles();
+      expect(files.map(f => [f.name, f.size, f.active])).toEqual([
+        [rotated[0].name, 300, false],
+        [rotated[1].name, 200, false],
+        [rotated[2].name, 100, false],
+        ['test.log', 50, true],
+      ]);
+      expect(files[0].endTs).toBe(now - 10 * day);
+      expect(files[0].startTs).toBeUndefined();
+      expect(files[3]).toEqual(expect.objectContaining({ startTs: 5, endTs: now }));
+    });
+  });
+
   test('ignores file write errors', async () => {
     const mockRNFS = require('react-native-fs');
     mockRNFS.stat.mockResolvedValue({ isFile: () => true, size: 100 });
@@ -81,6 +201,29 @@ describe('FileTransport', () => {
   });
 });
 
+describe('RNFSStorage', () => {
+  test('drops characters cut by a ranged read', async () => {
+    const mockRNFS = require('react-native-fs');
+    const bytes = new TextEncoder().encode('aé€b');
+    // bytes 2..5 start inside "é" and end inside "€"
+    mockRNFS.read.mockResolvedValue(toBase64(bytes.subarray(2, 5)));
+    await expect(RNFSStorage().read('/cache/app.log', 3, 2)).resolves.toBe('');
+    expect(mockRNFS.read).toHaveBeenCalledWith('/cache/app.log', 3, 2, 'base64');
+    mockRNFS.read.mockResolvedValue(toBase64(bytes.subarray(1, 6)));
+    await expect(RNFSStorage().read('/cache/app.log', 5, 1)).resolves.toBe('é€');
+  });
+
+  test('ignores deleting a missing file but rethrows other errors', async () => {
+    const mockRNFS = require('react-native-fs');
+    mockRNFS.unlink.mockRejectedValue(new Error('File does not exist'));
+    mockRNFS.exists.mockResolvedValue(false);
+    await expect(RNFSStorage().delete('/cache/app.log.1')).resolves.toBeUndefined();
+    mockRNFS.unlink.mockRejectedValue(new Error('Permission denied'));
+    mockRNFS.exists.mockResolvedValue(true);
+    await expect(RNFSStorage().delete('/cache/app.log.1')).rejects.toThrow('Permission denied');
+  });
+});
+
 describe('HttpTransport', () => {
   const mockFetch = jest.fn();
   global.fetch = mockFetch;
@@ -98,9 +241,19 @@ describe('HttpTransport', () => {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify([record]),
+      signal: expect.any(AbortSignal),
     });
   });
 
+  test('posts formatter output with its content type', async () => {
+    mockFetch.mockResolvedValue({});
+    const transport = HttpTransport({ url: 'http://example.com/logs', formatter: EcsFormatter() });
+    await transport.write([{ ts: 0, level: 'info', msg: 'test' }]);
+    const init = mockFetch.mock.calls[0][1];
+    expect(init.headers['Content-Type']).toBe('application/x-ndjson');
+    expect(JSON.parse(init.body.trim()).message).toBe('test');
+  });
+
   test('ignores fetch errors', async () => {
     mockFetch.mockRejectedValue(new Error('network error'));
     const transport = HttpTransport({ url: 'http://example.com/logs' });
@@ -108,6 +261,99 @@ describe('HttpTransport', () => {
   });
 });
 
+describe('OtlpHttpTransport', () => {
+  const mockFetch = global.fetch as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockResolvedValue({ status: 200 });
+  });
+
+  const send = async (records: LogRecord[]) => {
+    const transport = OtlpHttpTransport({ url: 'http://collector/v1/logs', resource: { 'service.name': 'app' } });
+    await transport.write(records);
+    expect(mockFetch.mock.calls[0][0]).toBe('http://collector/v1/logs');
+    return JSON.parse(mockFetch.mock.calls[0][1].body);
+  };
+
+  test('maps records to OTLP JSON', async () => {
+    const body = await send([
+      {
+        ts: 1700000000000,
+        level: 'warn',
+        msg: 'slow',
+        ns: 'api:http',
+        ctx: { ms: 1200, ok: false, ratio: 0.5, tags: ['a'], req: { path: '/x' } },
+        device: { platform: 'ios' },
+        correlationId: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      },
+    ]);
+    const resourceLogs = body.resourceLogs[0];
+    expect(resourceLogs.resource.attributes).toEqual([
+      { key: 'platform', value: { stringValue: 'ios' } },
+      { key: 'service.name', value: { stringValue: 'app' } },
+    ]);
+    expect(resourceLogs.scopeLogs[0].scope).toEqual({ name: 'api:http' });
+    const log = resourceLogs.scopeLogs[0].logRecords[0];
+    expect(log).toEqual(expect.objectContaining({
+      timeUnixNano: '1700000000000000000',
+      severityNumber: 13,
+      severityText: 'WARN',
+      body: { stringValue: 'slow' },
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      flags: 1,
+    }));
+    expect(log.attributes).toEqual([
+      { key: 'ms', value: { intValue: '1200' } },
+      { key: 'ok', value: { boolValue: false } },
+      { key: 'ratio', value: { doubleValue: 0.5 } },
+      { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'a' }] } } },
+      { key: 'req', value: { kvlistValue: { values: [{ key: 'path', value: { stringValue: '/x' } }] } } },
+    ]);
+  });
+
+  test('writes integers beyond the safe range as doubles', async () => {
+    const body = await send([{ ts: 0, level: 'info', msg: 'big', ctx: { safe: 2 ** 53 - 1, huge: 1e21, over: 2 ** 64 } }]);
+    expect(body.resourceLogs[0].scopeLogs[0].logRecords[0].attributes).toEqual([
+      { key: 'safe', value: { intValue: '9007199254740991' } },
+      { key: 'huge', value: { doubleValue: 1e21 } },
+      { key: 'over', value: { doubleValue: 2 ** 64 } },
+    ]);
+  });
+
+  test('keeps non-trace correlation IDs and errors as attributes', async () => {
+    const body = await send([
+      {
+        ts: 0,
+        level: 'error',
+        msg: 'failed',
+        correlationId: 'req-1',
+        err: { name: 'TypeError', message: 'boom', stack: 'TypeError: boom' },
+      },
+    ]);
+    const log = body.resourceLogs[0].scopeLogs[0].logRecords[0];
+    expect(log.severityNumber).toBe(17);
+    expect(log.traceId).toBeUndefined();
+    expect(log.attributes).toEqual([
+      { key: 'correlation.id', value: { stringValue: 'req-1' } },
+      { key: 'exception.type', value: { stringValue: 'TypeError' } },
+      { key: 'exception.message', value: { stringValue: 'boom' } },
+      { key: 'exception.stacktrace', value: { stringValue: 'TypeError: boom' } },
+    ]);
+  });
+
+  test('groups records by namespace', async () => {
+    const body = await send([
+      { ts: 0, level: 'info', msg: 'a', ns: 'one' },
+      { ts: 0, level: 'info', msg: 'b', ns: 'two' },
+      { ts: 0, level: 'info', msg: 'c', ns: 'one' },
+    ]);
+    const scopes = body.resourceLogs[0].scopeLogs;
+    expect(scopes.map((s: any) => [s.scope.name, s.logRecords.length])).toEqual([['one', 2], ['two', 1]]);
+  });
+});
+
 describe('SentryTransport', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -137,6 +383,24 @@ describe('SentryTransport', () => {
     });
   });
 
+  test('captures exception when record carries an error', () => {
+    const mockSentry = require('@sentry/react-native');
+    const transport = SentryTransport();
+    const record: LogRecord = {
+      ts: Date.now(),
+      level: 'fatal',
+      msg: 'crash',
+      err: { name: 'TypeError', message: 'boom', stack: 'TypeError: boom' },
+    };
+    transport.write([record]);
+    expect(mockSentry.captureMessage).not.toHaveBeenCalled();
+    const [exception, options] = mockSentry.captureException.mock.calls[0];
+    expect(exception).toBeInstanceOf(Error);
+    expect(exception.name).toBe('TypeError');
+    expect(exception.stack).toBe('TypeError: boom');
+    expect(options.level).toBe('fatal');
+  });
+
   test('ignores Sentry errors', () => {
     const mockSentry = require('@sentry/react-native');
     mockSentry.addBreadcrumb.mockImplementation(() => { throw new Error('Sentry error'); });
@@ -145,6 +409,15 @@ describe('SentryTransport', () => {
     expect(() => transport.write([record])).not.toThrow();
   });
 
+  test('counts the records it could not forward', () => {
+    const mockSentry = require('@sentry/react-native');
+    mockSentry.addBreadcrumb.mockImplementationOnce(() => { throw new Error('Sentry error'); });
+    const transport = SentryTransport();
+    const record: LogRecord = { ts: Date.now(), level: 'info', msg: 'test' };
+    transport.write([record, record]);
+    expect(transport.stats!()).toEqual({ failed: 2 });
+  });
+
   test('flushes sentry', async () => {
     const mockSentry = require('@sentry/react-native');
     mockSentry.flush.mockResolvedValue(true);
@@ -154,4 +427,42 @@ describe('SentryTransport', () => {
       expect(mockSentry.flush).toHaveBeenCalledWith(2000);
     }
   });
-});
\ No newline at end of file
+});
+
+describe('FilteredTransport', () => {
+  const records: LogRecord[] = [
+    { ts: 0, level: 'debug', msg: 'a', ns: 'api:http' },
+    { ts: 0, level: 'info', msg: 'b', ns: 'auth' },
+    { ts: 0, level: 'error', msg: 'c', ns: 'api:http' },
+    { ts: 0, level: 'fatal', msg: 'd', ns: 'analytics:track' },
+  ];
+  let inner: Transport & { write: jest.Mock };
+
+  beforeEach(() => {
+    inner = { name: 'inner', write: jest.fn(), flush: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  test('applies its own level threshold', () => {
+    FilteredTransport(inner, { level: 'error' }).write(records);
+    expect(inner.write.mock.calls[0][0].map((r: LogRecord) => r.msg)).toEqual(['c', 'd']);
+  });
+
+  test('applies namespace include and exclude globs', () => {
+    FilteredTransport(inner, { include: ['api:*', 'analytics:*'], exclude: ['analytics:*'] }).write(records);
+    expect(inner.write.mock.calls[0][0].map((r: LogRecord) => r.msg)).toEqual(['a', 'c']);
+  });
+
+  test('applies predicate', () => {
+    FilteredTransport(inner, { filter: r => r.msg === 'b' }).write(records);
+    expect(inner.write.mock.calls[0][0].map((r: LogRecord) => r.msg)).toEqual(['b']);
+  });
+
+  test('skips write when nothing passes and delegates flush', async () => {
+    const transport = FilteredTransport(inner, { level: 'fatal', include: ['auth'] });
+    transport.write(records);
+    expect(inner.write).not.toHaveBeenCalled();
+    await transport.flush?.();
+    expect(inner.flush).toHaveBeenCalled();
+    expect(transport.name).toBe('inner');
+  });
+});
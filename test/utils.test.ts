@@ -1,7 +1,12 @@
-import { AsyncBatchQueue } from '../src/utils/queue';
-import { makeRateLimiter } from '../src/utils/rateLimiter';
+import { AsyncBatchQueue, OverflowPolicy } from '../src/utils/queue';
+import { makeDeduper } from '../src/utils/dedupe';
+import { fingerprint, makeRateLimiter, makeTokenBucketLimiter } from '../src/utils/rateLimiter';
 import { makeRedactor } from '../src/utils/redactor';
 import { shouldSample } from '../src/utils/sampler';
+import { serializeError } from '../src/utils/errorSerializer';
+import { makeSerializer, normalizeRecord } from '../src/utils/serializer';
+import { matchNamespace } from '../src/utils/namespace';
+import { fromBase64, toBase64 } from '../src/utils/base64';
 import { LogRecord } from '../src/types';
 
 describe('AsyncBatchQueue', () => {
@@ -31,6 +36,58 @@ describe('AsyncBatchQueue', () => {
     await queue.flush();
     expect(flushFn).toHaveBeenCalledWith([1]);
   });
+
+  test('sends items pushed during a flush right after it', async () => {
+    let release!: () => void;
+    flushFn.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+    queue = new AsyncBatchQueue(2, 60000, flushFn);
+    queue.push(1);
+    queue.push(2);
+    queue.push(3);
+    queue.push(4);
+    queue.push(5);
+    const flushed = queue.flush();
+    expect(flushFn).toHaveBeenCalledTimes(1);
+    release();
+    await flushed;
+    expect(flushFn.mock.calls).toEqual([[[1, 2]], [[3, 4, 5]]]);
+  });
+
+  test('drops items by overflow policy and summarises once there is room', async () => {
+    const dropped: number[] = [];
+    const summaries: number[] = [];
+    const make = (overflow: OverflowPolicy) => new AsyncBatchQueue<number>(10, 10, flushFn, {
+      maxSize: 3,
+      overflow,
+      isLow: n => n < 10,
+      onDrop: n => dropped.push(n),
+      onRecover: count => { summaries.push(count); return -count; },
+    });
+
+    queue = make('drop-oldest');
+    [1, 2, 3, 4, 5].forEach(n => queue.push(n));
+    expect(dropped).toEqual([1, 2]);
+    await queue.flush();
+    expect(flushFn).toHaveBeenLastCalledWith([3, 4, 5]);
+    expect(summaries).toEqual([2]);
+    expect(queue.dropped).toBe(2);
+    await queue.flush();
+    expect(flushFn).toHaveBeenLastCalledWith([-2]);
+
+    dropped.length = 0;
+    queue = make('drop-newest');
+    [1, 2, 3, 4].forEach(n => queue.push(n));
+    expect(dropped).toEqual([4]);
+    await queue.flush();
+
+    dropped.length = 0;
+    queue = make('drop-below-level');
+    [10, 1, 11, 12, 2, 13].forEach(n => queue.push(n));
+    expect(dropped).toEqual([1, 2, 10]);
+    await queue.flush();
+    expect(flushFn).toHaveBeenLastCalledWith([11, 12, 13]);
+    await queue.flush();
+  });
 });
 
 describe('makeRateLimiter', () => {
@@ -42,6 +99,168 @@ describe('makeRateLimiter', () => {
   });
 });
 
+describe('makeTokenBucketLimiter', () => {
+  const rec = (msg: string, extra: Partial<LogRecord> = {}): LogRecord => ({ ts: Date.now(), level: 'info', msg, ...extra });
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  test('allows a burst, then refills at the sustained rate', () => {
+    const limiter = makeTokenBucketLimiter({ maxPerMin: 60, burst: 2 });
+    expect([1, 2, 3].map(i => limiter.allow(rec(`m${i}`)))).toEqual([true, true, false]);
+    now.mockReturnValue(1500);
+    expect(limiter.allow(rec('m4'))).toBe(false);
+    now.mockReturnValue(2000);
+    expect(limiter.allow(rec('m5'))).toBe(true);
+    expect(limiter.allow(rec('m6'))).toBe(false);
+  });
+
+  test('exempts error and fatal by default', () => {
+    const limiter = makeTokenBucketLimiter({ maxPerMin: 1 });
+    expect(limiter.allow(rec('a'))).toBe(true);
+    expect(limiter.allow(rec('b'))).toBe(false);
+    expect(limiter.allow(rec('c', { level: 'error' }))).toBe(true);
+    expect(limiter.allow(rec('d', { level: 'fatal' }))).toBe(true);
+    const strict = makeTokenBucketLimiter({ maxPerMin: 1, exempt: [] });
+    strict.allow(rec('a'));
+    expect(strict.allow(rec('b', { level: 'fatal' }))).toBe(false);
+  });
+
+  test('keeps separate buckets per key', () => {
+    const byLevel = makeTokenBucketLimiter({ maxPerMin: 1, key: 'level' });
+    expect(byLevel.allow(rec('a'))).toBe(true);
+    expect(byLevel.allow(rec('b', { level: 'warn' }))).toBe(true);
+    expect(byLevel.allow(rec('c'))).toBe(false);
+    const custom = makeTokenBucketLimiter({ maxPerMin: 1, key: r => String(r.ctx?.user) });
+    expect(custom.allow(rec('a', { ctx: { user: 1 } }))).toBe(true);
+    expect(custom.allow(rec('a', { ctx: { user: 2 } }))).toBe(true);
+    expect(custom.allow(rec('a', { ctx: { user: 1 } }))).toBe(false);
+  });
+
+  test('fingerprints messages with numbers and ids masked', () => {
+    expect(fingerprint(rec('retry 3 of 5', { ns: 'net' }))).toBe(fingerprint(rec('retry 4 of 5', { ns: 'net' })));
+    expect(fingerprint(rec('user 0x1f3a gone'))).toBe(fingerprint(rec('user 9bc2 gone')));
+    expect(fingerprint(rec('retry 3 of 5'))).not.toBe(fingerprint(rec('retry 3 of 5', { level: 'warn' })));
+    expect(fingerprint(rec('face value'))).toBe('info||face value');
+  });
+
+  test('summarises a suppression window when the bucket admits again', () => {
+    const limiter = makeTokenBucketLimiter({ maxPerMin: 60, burst: 1 });
+    limiter.allow(rec('first', { ns: 'net', correlationId: 'c1' }));
+    limiter.allow(rec('second', { ns: 'net' }));
+    now.mockReturnValue(1200);
+    limiter.allow(rec('third', { ns: 'net', level: 'warn' }));
+    expect(limiter.summaries()).toEqual([]);
+    now.mockReturnValue(2200);
+    expect(limiter.allow(rec('fourth'))).toBe(true);
+    expect(limiter.summaries()).toEqual([{
+      ts: 2200,
+      level: 'warn',
+      msg: 'Suppressed 2 similar messages',
+      ns: 'net',
+      ctx: { suppressed: 2, key: '', firstTs: 1000, lastTs: 1200, sample: 'second' },
+      correlationId: undefined,
+      device: undefined
+    }]);
+    expect(limiter.summaries()).toEqual([]);
+  });
+
+  test('summarises open windows on flush or after the summary interval', () => {
+    const limiter = makeTokenBucketLimiter({ maxPerMin: 1, summaryIntervalMs: 5000 });
+    limiter.allow(rec('a'));
+    limiter.allow(rec('b'));
+    expect(limiter.summaries(true).map(r => r.msg)).toEqual(['Suppressed 1 similar message']);
+    limiter.allow(rec('c'));
+    expect(limiter.nextCloseAt()).toBe(6000);
+    now.mockReturnValue(5999);
+    expect(limiter.summaries()).toEqual([]);
+    now.mockReturnValue(6000);
+    expect(limiter.summaries().map(r => r.ctx?.suppressed)).toEqual([1]);
+    expect(limiter.nextCloseAt()).toBeUndefined();
+  });
+});
+
+describe('makeDeduper', () => {
+  const rec = (ts: number, msg = 'retrying', extra: Partial<LogRecord> = {}): LogRecord => ({ ts, level: 'warn', msg, ...extra });
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  test('passes the first record and collapses duplicates within a sliding window', () => {
+    const deduper = makeDeduper({ windowMs: 1000 });
+    expect(deduper.accept(rec(0))).toBe(true);
+    expect(deduper.accept(rec(900))).toBe(false);
+    expect(deduper.accept(rec(1800))).toBe(false);
+    expect(deduper.accept(rec(1900, 'other'))).toBe(true);
+    expect(deduper.accept(rec(1900, 'retrying', { level: 'info' }))).toBe(true);
+    expect(deduper.accept(rec(1900, 'retrying', { ns: 'api' }))).toBe(true);
+    // a lower bound until a scan finds the window was extended
+    expect(deduper.nextCloseAt()).toBe(1900);
+    now.mockReturnValue(1900);
+    expect(deduper.summaries()).toEqual([]);
+    expect(deduper.nextCloseAt()).toBe(2800);
+    expect(deduper.accept(rec(2800))).toBe(true);
+    now.mockReturnValue(2800);
+    expect(deduper.summaries()).toEqual([{
+      ts: 2800,
+      level: 'warn',
+      msg: 'retrying (repeated 2 times)',
+      ns: undefined,
+      ctx: { count: 2, firstTs: 0, lastTs: 1800 },
+      correlationId: undefined,
+      device: undefined
+    }]);
+    expect(deduper.nextCloseAt()).toBeUndefined();
+  });
+
+  test('fingerprints selected context keys only', () => {
+    const deduper = makeDeduper({ ctxKeys: ['url'] });
+    expect(deduper.accept(rec(0, 'failed', { ctx: { url: '/a', attempt: 1 } }))).toBe(true);
+    expect(deduper.accept(rec(1, 'failed', { ctx: { url: '/a', attempt: 2 } }))).toBe(false);
+    expect(deduper.accept(rec(2, 'failed', { ctx: { url: '/b' } }))).toBe(true);
+    expect(deduper.accept(rec(3, 'failed'))).toBe(true);
+  });
+
+  test('summarises windows when they close or on flush', () => {
+    const deduper = makeDeduper({ windowMs: 1000 });
+    deduper.accept(rec(0, 'a'));
+    deduper.accept(rec(10, 'a'));
+    deduper.accept(rec(500, 'b'));
+    deduper.accept(rec(600, 'b'));
+    deduper.accept(rec(700, 'c'));
+    now.mockReturnValue(1010);
+    expect(deduper.summaries().map(r => r.msg)).toEqual(['a (repeated 1 time)']);
+    expect(deduper.summaries(true).map(r => r.msg)).toEqual(['b (repeated 1 time)']);
+    expect(deduper.summaries(true)).toEqual([]);
+    expect(deduper.accept(rec(1020, 'b'))).toBe(true);
+  });
+
+  test('summarises a continuous stream of duplicates every summaryIntervalMs', () => {
+    const deduper = makeDeduper({ windowMs: 1000, summaryIntervalMs: 5000 });
+    const passed: number[] = [];
+    const summaries: string[] = [];
+    for (let ts = 0; ts <= 12_000; ts += 100) {
+      now.mockReturnValue(ts);
+      if (deduper.accept(rec(ts))) passed.push(ts);
+      summaries.push(...deduper.summaries().map(r => `${r.ts} ${r.msg}`));
+    }
+    expect(passed).toEqual([0, 5000, 10_000]);
+    expect(summaries).toEqual(['5000 retrying (repeated 49 times)', '10000 retrying (repeated 49 times)']);
+  });
+});
+
 describe('makeRedactor', () => {
   test('redacts default sensitive keys', () => {
     const redactor = makeRedactor();
@@ -79,6 +298,225 @@ describe('makeRedactor', () => {
     const redacted = redactor(record);
     expect((redacted.ctx?.user as any).password).toBe('[REDACTED]');
   });
+
+  test('scrubs detected values in msg, ctx, device and err', () => {
+    const redactor = makeRedactor({ detectors: ['email', 'pan', 'jwt', 'bearer', 'iban', 'phone'] });
+    const redacted = redactor({
+      ts: 0,
+      level: 'error',
+      msg: 'Charged 4111 1111 1111 1111 for jane.doe@example.com',
+      ctx: {
+        note: 'call +44 20 7946 0958 or IBAN GB82 WEST 1234 5698 7654 32',
+        headers: { auth: 'Bearer abc.def-123' },
+        tokens: ['eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig'],
+        count: 3,
+      },
+      device: { owner: 'jane.doe@example.com' },
+      err: { name: 'Error', message: 'no card 4111111111111111', stack: 'Error: no card 4111111111111111\n    at pay' },
+    });
+    expect(redacted.msg).toBe('Charged [REDACTED:pan] for [REDACTED:email]');
+    expect(redacted.ctx).toEqual({
+      note: 'call [REDACTED:phone] or IBAN [REDACTED:iban]',
+      headers: { auth: 'Bearer [REDACTED:bearer]' },
+      tokens: ['[REDACTED:jwt]'],
+      count: 3,
+    });
+    expect(redacted.device).toEqual({ owner: '[REDACTED:email]' });
+    expect(redacted.err?.message).toBe('no card [REDACTED:pan]');
+    expect(redacted.err?.stack).toBe('Error: no card [REDACTED:pan]\n    at pay');
+  });
+
+  test('leaves look-alikes alone', () => {
+    const redactor = makeRedactor({ detectors: ['pan', 'phone', 'iban'] });
+    const msg = 'order 4111111111111112 at 1700000000000 on 2024-01-15 10:30, ref GB00WEST12345698765432';
+    expect(redactor({ ts: 0, level: 'info', msg }).msg).toBe(msg);
+  });
+
+  test('masks grouped phone numbers but not IPs, versions, decimals or coordinates', () => {
+    const redactor = makeRedactor({ detectors: ['phone'] });
+    const scrub = (msg: string) => redactor({ ts: 0, level: 'info', msg }).msg;
+    expect(scrub('call (020) 7946 0958, 555-123-4567 or +4915112345678')).toBe(
+      'call [REDACTED:phone], [REDACTED:phone] or [REDACTED:phone]'
+    );
+    for (const msg of [
+      'host 192.168.100.200',
+      'app 10.12.144.1234',
+      'took 1234.5678 ms',
+      'at 51.507351, -0.127758',
+      'phone 555.123.4567',
+    ]) {
+      expect(scrub(msg)).toBe(msg);
+    }
+  });
+
+  test('requires a salt for hashing', () => {
+    expect(() => makeRedactor({ detectors: ['email'], replacement: 'hash' })).toThrow('requires a salt');
+    expect(() => makeRedactor({ paths: { 'ctx.email': 'hash' } })).toThrow('requires a salt');
+    expect(() => makeRedactor({ detectors: [{ name: 'id', pattern: /id-\d+/, replacement: 'hash' }] })).toThrow(
+      'requires a salt'
+    );
+  });
+
+  test('supports partial, hashed and custom replacements', () => {
+    const rec = (msg: string): LogRecord => ({ ts: 0, level: 'info', msg });
+    expect(makeRedactor({ detectors: ['pan'], replacement: 'partial' })(rec('card 4111-1111-1111-1111')).msg)
+      .toBe('card ****1111');
+    const hashed = makeRedactor({ detectors: ['email'], replacement: 'hash', salt: 's1' });
+    const a = hashed(rec('a@b.co')).msg;
+    expect(a).toMatch(/^\[hash:[0-9a-f]{16}\]$/);
+    expect(hashed(rec('a@b.co')).msg).toBe(a);
+    expect(makeRedactor({ detectors: ['email'], replacement: 'hash', salt: 's2' })(rec('a@b.co')).msg).not.toBe(a);
+    const ssn = makeRedactor({ detectors: [{ name: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/ }] });
+    expect(ssn(rec('ssn 123-45-6789')).msg).toBe('ssn [REDACTED:ssn]');
+  });
+
+  test('applies path rules', () => {
+    const redactor = makeRedactor({
+      defaultKeys: false,
+      paths: {
+        'ctx.user.*.ssn': 'remove',
+        'ctx.headers.authorization': 'mask',
+        'ctx.items[*].cardNumber': 'partial',
+        'ctx.email': 'hash',
+        'ctx.note': { truncate: 4 },
+        'device.id': 'truncate',
+      },
+      salt: 's1',
+    });
+    const redacted = redactor({
+      ts: 0,
+      level: 'info',
+      msg: 'checkout',
+      ctx: {
+        user: { primary: { ssn: '123-45-6789', name: 'Jane' }, spouse: { ssn: '987-65-4321' } },
+        headers: { authorization: 'Bearer abc', accept: 'json' },
+        items: [{ cardNumber: '4111 1111 1111 1111', qty: 1 }, { qty: 2 }],
+        email: 'a@b.co',
+        note: 'long note',
+        pin: { enabled: true },
+      },
+      device: { id: '0123456789abcdef' },
+    });
+    expect(redacted.ctx).toEqual({
+      user: { primary: { name: 'Jane' }, spouse: {} },
+      headers: { authorization: '[REDACTED]', accept: 'json' },
+      items: [{ cardNumber: '****1111', qty: 1 }, { qty: 2 }],
+      email: expect.stringMatching(/^\[hash:[0-9a-f]{16}\]$/),
+      note: 'long…',
+      pin: { enabled: true },
+    });
+    expect(redacted.device).toEqual({ id: '01234567…' });
+  });
+
+  test('path rules take precedence over key names', () => {
+    const redactor = makeRedactor({ paths: { 'ctx.headers.authorization': 'partial' } });
+    const redacted = redactor({
+      ts: 0,
+      level: 'info',
+      msg: 'req',
+      ctx: { headers: { authorization: 'Bearer abcd1234' }, token: 't' },
+    });
+    expect(redacted.ctx).toEqual({ headers: { authorization: '****1234' }, token: '[REDACTED]' });
+  });
+
+  test('path rules below a sensitive key keep its other fields', () => {
+    const redactor = makeRedactor({ paths: { 'ctx.pin.code': 'mask' } });
+    const redacted = redactor({
+      ts: 0,
+      level: 'info',
+      msg: 'settings',
+      ctx: { pin: { enabled: true, code: '1234', token: 't' }, password: 'x' },
+    });
+    expect(redacted.ctx).toEqual({
+      pin: { enabled: true, code: '[REDACTED]', token: '[REDACTED]' },
+      password: '[REDACTED]',
+    });
+    // a scalar under the key has nothing for the rule to select and is still masked
+    expect(redactor({ ts: 0, level: 'info', msg: 'x', ctx: { pin: '1234' } }).ctx).toEqual({ pin: '[REDACTED]' });
+  });
+
+  test('keeps only allowlisted paths in strict mode', () => {
+    const redactor = makeRedactor({
+      allowlist: ['ctx.route', 'ctx.items[*].sku', 'device.os'],
+      paths: { 'ctx.route': 'truncate' },
+    });
+    const redacted = redactor({
+      ts: 0,
+      level: 'info',
+      msg: 'view',
+      ctx: { route: '/checkout/payment', userId: 'u1', items: [{ sku: 'A1', price: 3 }, { price: 4 }] },
+      device: { os: 'ios', name: "Jane's iPhone" },
+    });
+    expect(redacted.ctx).toEqual({ route: '/checkou…', items: [{ sku: 'A1' }] });
+    expect(redacted.device).toEqual({ os: 'ios' });
+    const empty = redactor({ ts: 0, level: 'info', msg: 'x', ctx: { secret: 1 } });
+    expect('ctx' in empty).toBe(false);
+  });
+
+  test('survives circular references and keeps Dates, Maps and Sets', () => {
+    const when = new Date(0);
+    const ctx: Record<string, unknown> = {
+      when,
+      tags: new Set(['a', { token: 't' }]),
+      headers: new Map<string, unknown>([['Authorization', 'Bearer x'], ['accept', 'json']]),
+    };
+    ctx.self = ctx;
+    for (const redactor of [makeRedactor(), makeRedactor({ paths: { 'ctx.*.x': 'mask' } })]) {
+      const out = redactor({ ts: 0, level: 'info', msg: 'loop', ctx }).ctx!;
+      expect(out.when).toBe(when);
+      expect(out.tags).toEqual(new Set(['a', { token: '[REDACTED]' }]));
+      expect(out.headers).toEqual(new Map([['Authorization', '[REDACTED]'], ['accept', 'json']]));
+    }
+    expect(makeRedactor()({ ts: 0, level: 'info', msg: 'loop', ctx }).ctx!.self).toBe('[Circular]');
+    const shared = { id: 1 };
+    expect(makeRedactor()({ ts: 0, level: 'info', msg: 'x', ctx: { a: shared, b: shared } }).ctx).toEqual({ a: { id: 1 }, b: { id: 1 } });
+  });
+
+  test('redacts custom properties of errors in ctx', () => {
+    const err = Object.assign(new Error('Request failed'), { config: { headers: { Authorization: 'Bearer secret123' } } });
+    const out = makeRedactor()({ ts: 0, level: 'error', msg: 'x', ctx: { details: { err } } }).ctx!;
+    expect(out.details).toEqual({
+      err: expect.objectContaining({ name: 'Error', message: 'Request failed', config: { headers: { Authorization: '[REDACTED]' } } }),
+    });
+  });
+
+  test('applies the allowlist and path rules to err', () => {
+    const err = {
+      name: 'AxiosError',
+      message: 'Request failed',
+      stack: 'AxiosError: Request failed',
+      code: 'ERR_BAD_REQUEST',
+      status: 401,
+      config: { url: '/login', headers: { Authorization: 'Bearer secret123' }, data: { password: 'hunter2' } },
+      cause: { name: 'Error', message: 'socket', socket: { fd: 3 } },
+      errors: [{ name: 'Error', message: 'one', extra: 1 }, 'raw'],
+    };
+    const strict = makeRedactor({ allowlist: ['ctx.route', 'err.status', 'err.config.url'] });
+    expect(strict({ ts: 0, level: 'error', msg: 'x', err }).err).toEqual({
+      name: 'AxiosError',
+      message: 'Request failed',
+      stack: 'AxiosError: Request failed',
+      code: 'ERR_BAD_REQUEST',
+      status: 401,
+      config: { url: '/login' },
+      cause: { name: 'Error', message: 'socket' },
+      errors: [{ name: 'Error', message: 'one' }],
+    });
+    const ruled = makeRedactor({ paths: { 'err.config': 'remove', 'err.stack': 'remove', 'err.cause.socket': 'mask' } });
+    expect(ruled({ ts: 0, level: 'error', msg: 'x', err }).err).toEqual({
+      name: 'AxiosError',
+      message: 'Request failed',
+      code: 'ERR_BAD_REQUEST',
+      status: 401,
+      cause: { name: 'Error', message: 'socket', socket: '[REDACTED]' },
+      errors: [{ name: 'Error', message: 'one', extra: 1 }, 'raw'],
+    });
+  });
+
+  test('rejects invalid paths', () => {
+    expect(() => makeRedactor({ paths: { 'user.ssn': 'mask' } })).toThrow('Invalid redaction path');
+    expect(() => makeRedactor({ allowlist: ['ctx..a'] })).toThrow('Invalid redaction path');
+  });
 });
 
 describe('shouldSample', () => {
@@ -96,4 +534,137 @@ describe('shouldSample', () => {
     expect(shouldSample('info', 0.4)).toBe(false);
     Math.random = originalRandom;
   });
-});
\ No newline at end of file
+});
+
+describe('serializeError', () => {
+  test('captures name, message, stack and code', () => {
+    const err = Object.assign(new TypeError('boom'), { code: 'E_BOOM', retryable: true });
+    const out = serializeError(err);
+    expect(out.name).toBe('TypeError');
+    expect(out.message).toBe('boom');
+    expect(out.stack).toContain('boom');
+    expect(out.code).toBe('E_BOOM');
+    expect(out.retryable).toBe(true);
+  });
+
+  test('serializes cause chain', () => {
+    const root = new Error('root');
+    const err = new Error('outer');
+    (err as any).cause = root;
+    const out = serializeError(err);
+    expect((out.cause as any).message).toBe('root');
+  });
+
+  test('serializes aggregate members', () => {
+    const err = new Error('many');
+    (err as any).errors = [new Error('a'), new Error('b')];
+    const out = serializeError(err);
+    expect(out.errors?.map((e: any) => e.message)).toEqual(['a', 'b']);
+  });
+
+  test('guards against circular causes', () => {
+    const err = new Error('loop');
+    (err as any).cause = err;
+    expect(serializeError(err).cause).toBe('[Circular]');
+  });
+
+  test('wraps non-error values', () => {
+    expect(serializeError('oops')).toEqual({ name: 'NonError', message: 'oops' });
+  });
+});
+
+describe('makeSerializer', () => {
+  const base: LogRecord = { ts: 0, level: 'info', msg: 'test' };
+
+  test('replaces circular references', () => {
+    const ctx: Record<string, unknown> = { a: 1 };
+    ctx.self = ctx;
+    const out = JSON.parse(makeSerializer()({ ...base, ctx }));
+    expect(out.ctx).toEqual({ a: 1, self: '[Circular]' });
+  });
+
+  test('keeps shared non-circular references', () => {
+    const shared = { id: 1 };
+    const out = normalizeRecord({ ...base, ctx: { a: shared, b: shared } });
+    expect(out.ctx).toEqual({ a: { id: 1 }, b: { id: 1 } });
+  });
+
+  test('converts BigInt, Map, Set and Date', () => {
+    const out = JSON.parse(makeSerializer()({
+      ...base,
+      ctx: {
+        big: BigInt(10),
+        map: new Map([['k', 1]]),
+        set: new Set([1, 2]),
+        when: new Date(0),
+      },
+    }));
+    expect(out.ctx).toEqual({ big: '10', map: { k: 1 }, set: [1, 2], when: '1970-01-01T00:00:00.000Z' });
+  });
+
+  test('caps depth, arrays and strings', () => {
+    const out = normalizeRecord(
+      { ...base, ctx: { deep: { a: { b: {} } }, list: [1, 2, 3], text: 'abcdef' } },
+      { maxDepth: 2, maxArrayLength: 2, maxStringLength: 3 }
+    );
+    expect(out.ctx).toEqual({ deep: { a: '[Object]' }, list: [1, 2], text: 'abc…' });
+    expect(out.truncated).toBe(true);
+  });
+
+  test('caps total record size', () => {
+    const json = makeSerializer({ maxBytes: 200 })({ ...base, ctx: { blob: 'x'.repeat(1000) } });
+    const out = JSON.parse(json);
+    expect(json.length).toBeLessThanOrEqual(200);
+    expect(out.ctx).toBeUndefined();
+    expect(out.truncated).toBe(true);
+  });
+
+  test('keeps its guarantees behind a redactor', () => {
+    const ctx: Record<string, unknown> = {
+      password: 'p',
+      map: new Map<string, unknown>([['token', 't'], ['k', 1]]),
+      set: new Set([1, 2]),
+      when: new Date(0),
+      err: new TypeError('bad'),
+    };
+    ctx.self = ctx;
+    for (const redactor of [makeRedactor(), makeRedactor({ detectors: ['email'], paths: { 'ctx.when': 'mask' } })]) {
+      const out = JSON.parse(makeSerializer()(redactor({ ...base, ctx })));
+      expect(out.ctx).toMatchObject({
+        password: '[REDACTED]',
+        map: { token: '[REDACTED]', k: 1 },
+        set: [1, 2],
+        err: { name: 'TypeError', message: 'bad' },
+      });
+    }
+    const plain = JSON.parse(makeSerializer()(makeRedactor()({ ...base, ctx })));
+    expect(plain.ctx.when).toBe('1970-01-01T00:00:00.000Z');
+    expect(plain.ctx.self).toBe('[Circular]');
+  });
+
+  test('leaves small records untouched', () => {
+    const record: LogRecord = { ...base, ctx: { a: 1 } };
+    expect(makeSerializer()(record)).toBe(JSON.stringify(record));
+  });
+});
+
+describe('matchNamespace', () => {
+  test('matches globs and literals', () => {
+    expect(matchNamespace('api:*', 'api:http')).toBe(true);
+    expect(matchNamespace('api:*', 'auth')).toBe(false);
+    expect(matchNamespace('*', undefined)).toBe(true);
+    expect(matchNamespace('api.v1', 'apixv1')).toBe(false);
+    expect(matchNamespace('api.v1', 'api.v1')).toBe(true);
+  });
+});
+
+describe('base64', () => {
+  test('round-trips bytes of every padding length', () => {
+    for (const length of [0, 1, 2, 3, 4, 5]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => 250 - i * 50);
+      const encoded = toBase64(bytes);
+      expect(encoded).toBe(Buffer.from(bytes).toString('base64'));
+      expect(Array.from(fromBase64(encoded))).toEqual(Array.from(bytes));
+    }
+  });
+});